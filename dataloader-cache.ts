@@ -0,0 +1,227 @@
+import type { AsyncCacheMap, CacheMap } from "./dataloader";
+
+// Bounded CacheMap implementations, for loaders which outlive a single request,
+// and an in-memory AsyncCacheMap.
+// 默认的 new Map() 没有容量上限, 长期存活的 DataLoader 实例会无限增长
+// 这里提供按容量淘汰(LRU)与按时间过期(TTL)两种策略, 也可以组合使用
+
+export type LruCacheOptions = {
+  // Maximum number of entries. The least recently used entry is evicted once
+  // the cache grows past it.
+  max: number;
+  // Milliseconds an entry stays valid after it is set. Default `Infinity`.
+  ttl?: number;
+  // Clock used for expiry, mostly useful for tests. Default `Date.now`.
+  now?: () => number;
+};
+
+export type TtlCacheOptions = {
+  // Milliseconds an entry stays valid after it is set.
+  ttl: number;
+  // Maximum number of entries. Default `Infinity`.
+  max?: number;
+  now?: () => number;
+};
+
+// Private: a cached value together with the time at which it expires.
+type Entry<V> = {
+  value: V;
+  expiresAt: number;
+};
+
+/**
+ * A `CacheMap` bounded by size, by age or by both. Entries are kept in access
+ * order, so once `max` is exceeded the least recently used entry is dropped.
+ * Expired entries are evicted lazily, when they are next read by `get` (that
+ * is, on `loader.load(key)`), or all at once by `prune()`.
+ */
+export class LruCacheMap<K, V> implements CacheMap<K, V> {
+  constructor(options: TtlCacheOptions | LruCacheOptions) {
+    this._max = getValidLimit("max", options.max);
+    this._ttl = getValidLimit("ttl", options.ttl);
+    this._now = options.now || Date.now;
+    this._entries = new Map();
+  }
+
+  // Private
+  _max: number;
+  _ttl: number;
+  _now: () => number;
+  _entries: Map<K, Entry<V>>;
+
+  /**
+   * The number of entries currently held, including expired entries which
+   * have not been evicted yet.
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  get(key: K): V | void {
+    let entry = this._entries.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this._now()) {
+      this._entries.delete(key);
+      return undefined;
+    }
+    // Re-insert the entry so the Map's insertion order tracks recency.
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Sets the value at `key`. An optional `ttl` overrides the cache's default
+   * lifetime for this entry only.
+   */
+  set(key: K, value: V, ttl: number = this._ttl): this {
+    this._entries.delete(key);
+    this._entries.set(key, { value, expiresAt: this._now() + ttl });
+    while (this._entries.size > this._max) {
+      // Map keys iterate in insertion order, so the first key is the least
+      // recently used one.
+      this._entries.delete(this._entries.keys().next().value);
+    }
+    return this;
+  }
+
+  delete(key: K): boolean {
+    return this._entries.delete(key);
+  }
+
+  clear(): void {
+    this._entries.clear();
+  }
+
+  /**
+   * Calls `callback` with each entry which has not expired, from the least to
+   * the most recently used, without affecting recency. Used by
+   * `loader.clearWhere()`.
+   */
+  forEach(callback: (value: V, key: K) => void): void {
+    let now = this._now();
+    this._entries.forEach((entry, key) => {
+      if (entry.expiresAt > now) {
+        callback(entry.value, key);
+      }
+    });
+  }
+
+  /**
+   * Evicts every expired entry. Returns the number of entries removed.
+   */
+  prune(): number {
+    let now = this._now();
+    let expiredKeys: Array<K> = [];
+    this._entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        expiredKeys.push(key);
+      }
+    });
+    for (let i = 0; i < expiredKeys.length; i++) {
+      this._entries.delete(expiredKeys[i]);
+    }
+    return expiredKeys.length;
+  }
+}
+
+/**
+ * A size-bounded LRU cache, optionally expiring entries after `ttl` ms:
+ *
+ *     new DataLoader(batchLoadFn, { cacheMap: lru({ max: 1000, ttl: 60000 }) });
+ *
+ */
+export function lru<K, V>(options: LruCacheOptions): LruCacheMap<K, V> {
+  if (!options || options.max === undefined) {
+    throw new TypeError("lru() must be called with a max size.");
+  }
+  return new LruCacheMap(options);
+}
+
+/**
+ * A cache which expires each entry `ttl` ms after it was set, optionally also
+ * bounded to `max` entries:
+ *
+ *     new DataLoader(batchLoadFn, { cacheMap: ttl({ ttl: 60000 }) });
+ *
+ */
+export function ttl<K, V>(options: TtlCacheOptions): LruCacheMap<K, V> {
+  if (!options || options.ttl === undefined) {
+    throw new TypeError("ttl() must be called with a ttl in milliseconds.");
+  }
+  return new LruCacheMap(options);
+}
+
+/**
+ * An in-memory stand-in for an out-of-process `AsyncCacheMap`, such as a
+ * Redis-backed one, for tests and local development. Values are copied
+ * through `serialize`/`deserialize` (JSON by default), like a real store
+ * would, and every call takes `latencyMs` to settle.
+ */
+export class InMemoryAsyncCacheMap<K, V> implements AsyncCacheMap<K, V> {
+  constructor(options?: {
+    latencyMs?: number;
+    serialize?: (value: V) => string;
+    deserialize?: (data: string) => V;
+  }) {
+    this._latencyMs = (options && options.latencyMs) || 0;
+    this._serialize = (options && options.serialize) || JSON.stringify;
+    this._deserialize = (options && options.deserialize) || JSON.parse;
+    this._entries = new Map();
+  }
+
+  // Private
+  _latencyMs: number;
+  _serialize: (value: V) => string;
+  _deserialize: (data: string) => V;
+  _entries: Map<K, string>;
+
+  get(key: K): Promise<V | void> {
+    return this._settle(() => {
+      let data = this._entries.get(key);
+      return data === undefined ? undefined : this._deserialize(data);
+    });
+  }
+
+  set(key: K, value: V): Promise<void> {
+    return this._settle(() => {
+      this._entries.set(key, this._serialize(value));
+    });
+  }
+
+  delete(key: K): Promise<boolean> {
+    return this._settle(() => this._entries.delete(key));
+  }
+
+  clear(): Promise<void> {
+    return this._settle(() => this._entries.clear());
+  }
+
+  // Private: runs `fn` after the simulated latency. A failure, e.g. of
+  // `serialize`, rejects the Promise like a failing store would, rather than
+  // being thrown from the timer.
+  _settle<T>(fn: () => T): Promise<T> {
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        try {
+          resolve(fn());
+        } catch (error) {
+          reject(error);
+        }
+      }, this._latencyMs);
+    });
+  }
+}
+
+// Private: given a max or ttl option, produce a valid positive limit.
+function getValidLimit(name: string, limit?: number): number {
+  if (limit === undefined) {
+    return Infinity;
+  }
+  if (typeof limit !== "number" || !(limit > 0)) {
+    throw new TypeError(`${name} must be a positive number: ${limit}`);
+  }
+  return limit;
+}
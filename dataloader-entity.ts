@@ -0,0 +1,165 @@
+import DataLoader from "./dataloader";
+import type {
+  BatchLoadContext,
+  BatchLoadFn,
+  BatchLoadResult,
+  Options,
+} from "./dataloader";
+
+// Loaders for one entity which can be looked up by several unique keys:
+// 同一个实体(如 User)可以通过 id / name / email 等多个唯一键查询,
+// 任一索引加载到的值都会被 prime 到其他索引, 避免同一实体以不同的 key 被重复查询
+//
+//     const users = new EntityLoader<IUser, { id: number; name: string }>({
+//       id: { batchLoadFn: getUsersByIds, keyOf: (user: IUser) => user.id },
+//       name: { batchLoadFn: getUsersByNames, keyOf: (user: IUser) => user.name },
+//     });
+//
+//     await users.by.name.load("AAA");
+//     await users.by.id.load(1); // cached, no batch function call
+//
+//     users.clear(user); // drops the user from every index
+
+export type EntityIndex<K, V, C = K> = {
+  // Loads entities by this index's key. Since each index has a `keyOf`, the
+  // values may be returned in any order, and missing keys may be left out.
+  // Streaming batch functions are not supported.
+  batchLoadFn: (
+    keys: ReadonlyArray<K>,
+    context: BatchLoadContext
+  ) => Promise<BatchLoadResult<K, V>>;
+  // Reads this index's key from an entity loaded by any index.
+  keyOf: (value: V) => K;
+  // Options for this index's DataLoader.
+  options?: Omit<Options<K, V, C>, "keyOf">;
+};
+
+export type EntityIndexes<V, I> = {
+  [P in keyof I]: EntityIndex<I[P], V, any>;
+};
+
+/**
+ * A set of `DataLoader`s for one entity, one per unique key, which prime each
+ * other: a value loaded through any index is added to the cache of every other
+ * index, so it is not loaded again by another key later in the request.
+ *
+ * Like a single DataLoader, an EntityLoader is meant to be created per request.
+ */
+export class EntityLoader<V, I extends { [index: string]: any }> {
+  constructor(indexes: EntityIndexes<V, I>) {
+    if (!indexes || typeof indexes !== "object") {
+      throw new TypeError(
+        "EntityLoader must be constructed with an object of indexes, but " +
+          `got: ${indexes}.`
+      );
+    }
+    this._indexes = indexes;
+    this._indexNames = Object.keys(indexes) as Array<keyof I>;
+    let by = {} as { [P in keyof I]: DataLoader<I[P], V, any> };
+    for (let i = 0; i < this._indexNames.length; i++) {
+      let indexName = this._indexNames[i];
+      by[indexName] = this._createLoader(indexName);
+    }
+    this.by = by;
+  }
+
+  // The DataLoader of each index, e.g. `users.by.email.load(email)`. Clearing
+  // a key of one of them only affects that index, see clear().
+  readonly by: { [P in keyof I]: DataLoader<I[P], V, any> };
+
+  // Private
+  _indexes: EntityIndexes<V, I>;
+  _indexNames: Array<keyof I>;
+
+  /**
+   * Adds `value` to the cache of every index, under the key each index reads
+   * from it. Existing values are not replaced. Returns itself for method
+   * chaining.
+   */
+  prime(value: V): this {
+    let indexNames = this._indexNames;
+    for (let i = 0; i < indexNames.length; i++) {
+      let index = this._indexes[indexNames[i]];
+      this.by[indexNames[i]].prime(index.keyOf(value), value);
+    }
+    return this;
+  }
+
+  /**
+   * Clears `value` from every index, e.g. after it was updated. Returns itself
+   * for method chaining.
+   */
+  clear(value: V): this {
+    let indexNames = this._indexNames;
+    for (let i = 0; i < indexNames.length; i++) {
+      let index = this._indexes[indexNames[i]];
+      this.by[indexNames[i]].clear(index.keyOf(value));
+    }
+    return this;
+  }
+
+  /**
+   * Clears every index. Returns itself for method chaining.
+   */
+  clearAll(): this {
+    let indexNames = this._indexNames;
+    for (let i = 0; i < indexNames.length; i++) {
+      this.by[indexNames[i]].clearAll();
+    }
+    return this;
+  }
+
+  // Private: creates the DataLoader of an index, whose batch function primes
+  // every other index with the values it loaded.
+  _createLoader<P extends keyof I>(indexName: P): DataLoader<I[P], V, any> {
+    let index = this._indexes[indexName];
+    if (!index || typeof index.batchLoadFn !== "function") {
+      throw new TypeError(
+        `EntityLoader index "${String(indexName)}" must have a batchLoadFn.`
+      );
+    }
+    if (typeof index.keyOf !== "function") {
+      throw new TypeError(
+        `EntityLoader index "${String(indexName)}" must have a keyOf function.`
+      );
+    }
+    let batchLoadFn: BatchLoadFn<I[P], V> = (keys, context) =>
+      index.batchLoadFn(keys, context).then((result) => {
+        this._primeOtherIndexes(indexName, result);
+        return result;
+      });
+    return new DataLoader(batchLoadFn, {
+      ...index.options,
+      keyOf: index.keyOf,
+    });
+  }
+
+  // Private: primes every index but `indexName` with the values of a batch.
+  _primeOtherIndexes(
+    indexName: keyof I,
+    result: BatchLoadResult<any, V>
+  ): void {
+    // Arrays and Maps both pass the value first; anything else is rejected by
+    // the DataLoader itself.
+    let values: Array<V | Error> = [];
+    if (result && typeof result.forEach === "function") {
+      (result as ReadonlyArray<V | Error>).forEach((value) => {
+        values.push(value);
+      });
+    }
+    let indexNames = this._indexNames;
+    for (let i = 0; i < values.length; i++) {
+      let value = values[i];
+      // Errors and empty results only concern the key they were loaded by.
+      if (value instanceof Error || value == null) {
+        continue;
+      }
+      for (let j = 0; j < indexNames.length; j++) {
+        if (indexNames[j] !== indexName) {
+          let index = this._indexes[indexNames[j]];
+          this.by[indexNames[j]].prime(index.keyOf(value), value);
+        }
+      }
+    }
+  }
+}
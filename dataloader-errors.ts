@@ -0,0 +1,194 @@
+// Errors produced by DataLoader itself, as opposed to those returned or thrown
+// by the batch function.
+// 注意: dataloader.ts 使用了 module.exports = DataLoader, 具名导出在运行时会丢失,
+// 因此错误类单独放在这个文件中导出
+
+// Where an error occurred. `batchId` counts the batches of a loader from 1, and
+// is null outside of a batch.
+export type DataLoaderErrorDetails<K = unknown> = {
+  loaderName: string;
+  batchId: number | null;
+  keys: ReadonlyArray<K>;
+  // What the batch function returned or yielded, for contract violations.
+  value?: unknown;
+  // The error behind this one, e.g. the rejection of the batch function.
+  cause?: unknown;
+};
+
+/**
+ * The base class of the errors DataLoader rejects loads with. Its fields
+ * describe the batch concerned, so that the keys and values involved need not
+ * be spelled out in the message.
+ */
+export class DataLoaderError<K = unknown> extends Error {
+  readonly loaderName: string;
+  readonly batchId: number | null;
+  readonly keys: ReadonlyArray<K>;
+  readonly value: unknown;
+  readonly cause: unknown;
+
+  constructor(message: string, details: DataLoaderErrorDetails<K>) {
+    super(message);
+    // target 为 ES5 时, 继承内置 Error 需要手动修正原型链, 否则 instanceof 失效
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataLoaderError";
+    this.loaderName = details.loaderName;
+    this.batchId = details.batchId;
+    this.keys = details.keys;
+    this.value = details.value;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The batch function did not honour its contract, e.g. it did not return a
+ * Promise of an Array or a Map. This is a programmer error: `value` holds what
+ * the batch function returned instead.
+ */
+export class BatchFunctionContractError<
+  K = unknown
+> extends DataLoaderError<K> {
+  constructor(message: string, details: DataLoaderErrorDetails<K>) {
+    super(message, details);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "BatchFunctionContractError";
+  }
+}
+
+/**
+ * The batch function returned an Array of a different length than the Array
+ * of keys it was given, and without a `keyOf` option to line them up.
+ */
+export class BatchLengthMismatchError<
+  K = unknown
+> extends BatchFunctionContractError<K> {
+  readonly expectedLength: number;
+  readonly actualLength: number;
+
+  // `value` holds the Array the batch function returned.
+  constructor(details: DataLoaderErrorDetails<K>) {
+    let actualLength = (details.value as ArrayLike<unknown>).length;
+    super(
+      `${details.loaderName} batch function returned ` +
+        `${actualLength} value(s) for ${details.keys.length} key(s) ` +
+        `in batch ${details.batchId}. It must return an Array of the same ` +
+        "length as the Array of keys, in the same order.",
+      details
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "BatchLengthMismatchError";
+    this.expectedLength = details.keys.length;
+    this.actualLength = actualLength;
+  }
+}
+
+/**
+ * Rejects every load of a batch whose batch function rejected or threw, which
+ * is usually a failure of the back-end. `cause` holds the original error.
+ */
+export class BatchFailedError<K = unknown> extends DataLoaderError<K> {
+  constructor(details: DataLoaderErrorDetails<K>) {
+    super(
+      `${details.loaderName} batch ${details.batchId} of ` +
+        `${details.keys.length} key(s) failed: ${describeCause(details.cause)}`,
+      details
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "BatchFailedError";
+  }
+}
+
+/**
+ * Rejects every load of a batch whose batch function did not settle within
+ * the loader's `batchTimeoutMs`.
+ */
+export class BatchTimeoutError<K = unknown> extends DataLoaderError<K> {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, details: DataLoaderErrorDetails<K>) {
+    super(
+      `${details.loaderName} batch ${details.batchId} of ` +
+        `${details.keys.length} key(s) timed out after ${timeoutMs}ms.`,
+      details
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "BatchTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Rejects a load when the batch function returned a Map (or an Array together
+ * with a `keyOf` option) that has no value for the requested key.
+ */
+export class KeyNotFoundError<K = unknown> extends DataLoaderError<K> {
+  readonly key: K;
+
+  constructor(key: K, details?: DataLoaderErrorDetails<K>) {
+    let loaderName = details ? details.loaderName : "DataLoader";
+    super(
+      `${loaderName} batch function returned no value for key: ` +
+        `${describeValue(key)}.`,
+      details || { loaderName, batchId: null, keys: [key] }
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "KeyNotFoundError";
+    this.key = key;
+  }
+}
+
+/**
+ * Rejects a load whose `signal` was aborted before its value was loaded.
+ */
+export class AbortError<K = unknown> extends Error {
+  readonly key: K;
+
+  constructor(key: K) {
+    super(`DataLoader load was aborted for key: ${describeValue(key)}.`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "AbortError";
+    this.key = key;
+  }
+}
+
+/**
+ * Rejects `loadAll(keys)` when any of the keys failed to load. `failures`
+ * lists every failed key, in the order the keys were given.
+ */
+export class LoadAllError<K = unknown> extends Error {
+  readonly failures: ReadonlyArray<{ key: K; error: Error }>;
+
+  constructor(failures: ReadonlyArray<{ key: K; error: Error }>) {
+    super(
+      `DataLoader failed to load ${failures.length} key(s): ` +
+        failures.map((failure) => describeValue(failure.key)).join(", ") +
+        "."
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "LoadAllError";
+    this.failures = failures;
+  }
+}
+
+// A short description of a key or value for an error message. Objects are
+// shown as JSON rather than "[object Object]", cut to a bounded length.
+export function describeValue(value: unknown): string {
+  if (typeof value !== "object" || value === null) {
+    return String(value);
+  }
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch (error) {
+    json = undefined;
+  }
+  if (json === undefined) {
+    return Object.prototype.toString.call(value);
+  }
+  return json.length > 100 ? json.slice(0, 97) + "..." : json;
+}
+
+// Private: the message of the error behind a BatchFailedError.
+function describeCause(cause: unknown): string {
+  return cause instanceof Error ? cause.message : describeValue(cause);
+}
@@ -0,0 +1,156 @@
+import DataLoader from "./dataloader";
+import type {
+  AsyncCacheMap,
+  BatchLoadContext,
+  BatchLoadResult,
+  BatchLoadStream,
+  CacheMap,
+  Options,
+} from "./dataloader";
+
+// One loader per set of field arguments:
+// 类似 pets(kind: "Cat", first: 10) 的字段, 不同参数的查询不能合并进同一个 batch,
+// LoaderFamily 按规范化后的参数惰性创建并缓存 DataLoader, 取代手写的 Map<string, DataLoader>
+//
+//     const petsOfUser = new LoaderFamily(
+//       (userIds: ReadonlyArray<number>, args: { kind: string; first: number }) =>
+//         getPetsOfUsers(userIds, args)
+//     );
+//
+//     // in the resolver
+//     petsOfUser.get(args).load(user.id);
+
+// Like a BatchLoadFn, but also given the arguments of the member loader.
+export type FamilyBatchLoadFn<A, K, V> = (
+  keys: ReadonlyArray<K>,
+  args: A,
+  context: BatchLoadContext
+) => Promise<BatchLoadResult<K, V>> | BatchLoadStream<K, V>;
+
+// The caches are created per member, since members load the same keys with
+// different arguments.
+export type FamilyOptions<A, K, V, C = K> = Omit<
+  Options<K, V, C>,
+  "cacheMap" | "asyncCacheMap"
+> & {
+  // Default a canonical JSON encoding, in which the order of object keys does
+  // not matter. Produces the string identifying the member for `args`.
+  argsKeyFn?: (args: A) => string;
+  // Creates the `cacheMap` of the member for `args`, e.g. `() => lru({ max })`.
+  cacheMap?: (args: A) => CacheMap<C, Promise<V>> | null;
+  // Creates the `asyncCacheMap` of the member for `args`, which should keep
+  // its entries apart from those of the other members, e.g. with a prefix.
+  asyncCacheMap?: (args: A) => AsyncCacheMap<C, V>;
+};
+
+/**
+ * A family of `DataLoader`s, one per distinct argument object, created lazily
+ * by `get(args)`. Every member shares the family's options, except for its
+ * caches, which are created per member. Argument objects which only differ in
+ * the order of their keys get the same member.
+ *
+ * Like a single DataLoader, a LoaderFamily is meant to be created per request.
+ */
+export class LoaderFamily<A, K, V, C = K> {
+  constructor(
+    batchLoadFn: FamilyBatchLoadFn<A, K, V>,
+    options?: FamilyOptions<A, K, V, C>
+  ) {
+    if (typeof batchLoadFn !== "function") {
+      throw new TypeError(
+        "LoaderFamily must be constructed with a function which accepts " +
+          `Array<key>, the arguments and a context, but got: ${batchLoadFn}.`
+      );
+    }
+    let { argsKeyFn, cacheMap, asyncCacheMap, ...loaderOptions } =
+      options || ({} as FamilyOptions<A, K, V, C>);
+    if (argsKeyFn !== undefined && typeof argsKeyFn !== "function") {
+      throw new TypeError(`argsKeyFn must be a function: ${argsKeyFn}`);
+    }
+    if (cacheMap !== undefined && typeof cacheMap !== "function") {
+      throw new TypeError(
+        "cacheMap must be a function which creates the cache of a member, " +
+          `but got: ${cacheMap}`
+      );
+    }
+    if (asyncCacheMap !== undefined && typeof asyncCacheMap !== "function") {
+      throw new TypeError(
+        "asyncCacheMap must be a function which creates the cache of a " +
+          `member, but got: ${asyncCacheMap}`
+      );
+    }
+    this._batchLoadFn = batchLoadFn;
+    this._options = loaderOptions;
+    this._argsKeyFn = argsKeyFn || canonicalize;
+    this._cacheMapFn = cacheMap || null;
+    this._asyncCacheMapFn = asyncCacheMap || null;
+    this._members = new Map();
+  }
+
+  // Private
+  _batchLoadFn: FamilyBatchLoadFn<A, K, V>;
+  _options: Options<K, V, C>;
+  _argsKeyFn: (args: A) => string;
+  _cacheMapFn: ((args: A) => CacheMap<C, Promise<V>> | null) | null;
+  _asyncCacheMapFn: ((args: A) => AsyncCacheMap<C, V>) | null;
+  _members: Map<string, DataLoader<K, V, C>>;
+
+  /**
+   * The number of member loaders created so far.
+   */
+  get size(): number {
+    return this._members.size;
+  }
+
+  /**
+   * Returns the member loader for `args`, creating it on first use.
+   */
+  get(args: A): DataLoader<K, V, C> {
+    let argsKey = this._argsKeyFn(args);
+    let member = this._members.get(argsKey);
+    if (!member) {
+      let batchLoadFn = this._batchLoadFn;
+      let memberOptions: Options<K, V, C> = { ...this._options };
+      if (this._cacheMapFn) {
+        memberOptions.cacheMap = this._cacheMapFn(args);
+      }
+      if (this._asyncCacheMapFn) {
+        memberOptions.asyncCacheMap = this._asyncCacheMapFn(args);
+      }
+      member = new DataLoader(
+        (keys, context) => batchLoadFn(keys, args, context),
+        memberOptions
+      );
+      this._members.set(argsKey, member);
+    }
+    return member;
+  }
+
+  /**
+   * Clears the cache of every member loader. Returns itself for method
+   * chaining.
+   */
+  clearAll(): this {
+    this._members.forEach((member) => {
+      member.clearAll();
+    });
+    return this;
+  }
+}
+
+// Private: encodes `args` as JSON, with the keys of every object sorted.
+function canonicalize(args: unknown): string {
+  return String(
+    JSON.stringify(args, (_key, value) => {
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        let sorted: { [key: string]: unknown } = {};
+        let keys = Object.keys(value).sort();
+        for (let i = 0; i < keys.length; i++) {
+          sorted[keys[i]] = value[keys[i]];
+        }
+        return sorted;
+      }
+      return value;
+    })
+  );
+}
@@ -0,0 +1,146 @@
+import { graphql } from "graphql";
+import { makeExecutableSchema } from "apollo-server";
+import {
+  BatchRecorder,
+  VirtualScheduler,
+  createTestLoader,
+  dataLoaderMatchers,
+} from "./dataloader-testing";
+import {
+  createDataLoaders,
+  createMockService,
+  resolvers,
+  typeDefs,
+} from "./sample-schema";
+import type { IPet, IUser, ServiceType } from "./sample-schema";
+
+expect.extend(dataLoaderMatchers);
+
+const batchLoadDoubles = async (keys: ReadonlyArray<number>) =>
+  keys.map((key) => key * 2);
+
+describe("createTestLoader", () => {
+  it("dispatches batches only when the scheduler runs", async () => {
+    const { loader, scheduler, recorder } = createTestLoader(batchLoadDoubles);
+    const values = Promise.all([loader.load(1), loader.load(2)]);
+    await Promise.resolve();
+    expect(scheduler.pending).toBe(1);
+    expect(recorder).toHaveDispatchedBatches([]);
+
+    await scheduler.run();
+    await expect(values).resolves.toEqual([2, 4]);
+    expect(scheduler.pending).toBe(0);
+    expect(recorder).toHaveDispatchedBatches([[1, 2]]);
+  });
+
+  it("counts cache hits", async () => {
+    const { loader, scheduler, recorder } = createTestLoader(batchLoadDoubles);
+    const values = Promise.all([loader.load(1), loader.load(1)]);
+    await scheduler.run();
+    await values;
+    expect(recorder).toHaveCacheHits(1);
+    expect(recorder).not.toHaveCacheHits(0);
+    expect(recorder.loads).toEqual([1, 1]);
+  });
+
+  it("runs until the loads made by settled loads are dispatched", async () => {
+    const { loader, scheduler, recorder } = createTestLoader(batchLoadDoubles);
+    // Each value loads the key before it, like a nested resolver would.
+    const loadChain = (key: number): Promise<number> =>
+      loader.load(key).then((value) => (key > 0 ? loadChain(key - 1) : value));
+    const value = loadChain(3);
+    await scheduler.run();
+    await expect(value).resolves.toBe(0);
+    expect(recorder).toHaveDispatchedBatches([[3], [2], [1], [0]]);
+  });
+
+  it("records the virtual time of each batch", async () => {
+    const { loader, scheduler, recorder } = createTestLoader(batchLoadDoubles);
+    scheduler.advance(100);
+    const value = loader.load(1);
+    await scheduler.run();
+    await value;
+    expect(recorder.batches).toEqual([
+      { keys: [1], startedAt: 100, settledAt: 100, error: undefined },
+    ]);
+  });
+
+  it("describes the batches in the message of a failing matcher", async () => {
+    const { loader, scheduler, recorder } = createTestLoader(batchLoadDoubles);
+    const value = loader.load(1);
+    await scheduler.run();
+    await value;
+    expect(() => expect(recorder).toHaveDispatchedBatches([[2]])).toThrow(
+      /to have been called with the batches/
+    );
+    expect(() => expect(recorder).toHaveCacheHits(1)).toThrow(
+      /cache hit\(s\), but there were/
+    );
+  });
+});
+
+describe("sample schema", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("loads the partners and pets of every user in one batch each", async () => {
+    const scheduler = new VirtualScheduler();
+    const usersRecorder = new BatchRecorder<number>({ now: scheduler.now });
+    const petsRecorder = new BatchRecorder<number>({ now: scheduler.now });
+    const mockService = createMockService(0);
+    const service: ServiceType = {
+      ...mockService,
+      getUsersByIds: usersRecorder.wrap<IUser>(
+        mockService.getUsersByIds
+      ) as ServiceType["getUsersByIds"],
+      getPetsByIds: petsRecorder.wrap<IPet>(
+        mockService.getPetsByIds
+      ) as ServiceType["getPetsByIds"],
+    };
+    const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+    const result = graphql({
+      schema,
+      source: `
+        {
+          fetchAllUsers {
+            name
+            batchLoadPartner {
+              name
+              batchLoadPartner {
+                name
+              }
+            }
+            batchLoadPets {
+              kind
+            }
+          }
+        }
+      `,
+      contextValue: {
+        service,
+        dataloaders: createDataLoaders(service, {
+          batchScheduleFn: scheduler.batchScheduleFn,
+        }),
+      },
+    });
+    await scheduler.run();
+    const { data, errors } = await result;
+
+    expect(errors).toBeUndefined();
+    expect(data!.fetchAllUsers[0]).toEqual({
+      name: "AAA",
+      batchLoadPartner: { name: "BBB", batchLoadPartner: { name: "CCC" } },
+      batchLoadPets: [{ kind: "Dog" }, { kind: "Bird" }, { kind: "Snake" }],
+    });
+    // The partners of the partners were all loaded by the first batch.
+    expect(usersRecorder).toHaveDispatchedBatches([[2, 3, 4, 5, 1]]);
+    expect(petsRecorder).toHaveDispatchedBatches([[2, 3, 4, 1, 5]]);
+    expect(scheduler.pending).toBe(0);
+  });
+});
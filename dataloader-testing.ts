@@ -0,0 +1,245 @@
+import DataLoader from "./dataloader";
+import type { BatchLoadFn, Instrumentation, Options } from "./dataloader";
+
+// Helpers for testing code which uses DataLoader, without depending on the
+// timing of process.nextTick or setTimeout:
+// 批次的派发时机由 VirtualScheduler 控制, BatchRecorder 记录每一次批处理函数调用
+//
+//     expect.extend(dataLoaderMatchers);
+//
+//     const { loader, scheduler, recorder } = createTestLoader(batchLoadUsers);
+//     const users = Promise.all([loader.load(1), loader.load(2)]);
+//     await scheduler.run();
+//
+//     expect(recorder).toHaveDispatchedBatches([[1, 2]]);
+//     expect(recorder).toHaveCacheHits(0);
+
+/**
+ * A `batchScheduleFn` whose batches are only dispatched when the test says so,
+ * with a virtual clock for the timings recorded by a BatchRecorder.
+ */
+export class VirtualScheduler {
+  constructor() {
+    this._queue = [];
+    this._now = 0;
+    this.batchScheduleFn = (callback: () => void) => {
+      this._queue.push(callback);
+    };
+    this.now = () => this._now;
+  }
+
+  // To be given as the `batchScheduleFn` option.
+  readonly batchScheduleFn: (callback: () => void) => void;
+  // The virtual clock, in milliseconds, starting at 0.
+  readonly now: () => number;
+
+  // Private
+  _queue: Array<() => void>;
+  _now: number;
+
+  /**
+   * The number of batches waiting to be dispatched.
+   */
+  get pending(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Dispatches every waiting batch, including batches scheduled while doing
+   * so. Returns the number of batches dispatched.
+   */
+  flush(): number {
+    let count = 0;
+    while (this._queue.length > 0) {
+      let callback = this._queue.shift() as () => void;
+      callback();
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Dispatches batches until none are left, letting the batch functions and
+   * the code awaiting the loads run in between, so that the loads they make
+   * in turn are dispatched too, e.g. those of nested GraphQL resolvers.
+   * Waits on a real `setTimeout` between rounds, so with Jest's fake timers
+   * call flush() instead.
+   */
+  run(): Promise<void> {
+    return settleTasks().then(() => {
+      if (this.flush() > 0) {
+        return this.run();
+      }
+    });
+  }
+
+  /**
+   * Moves the virtual clock forward.
+   */
+  advance(ms: number): this {
+    this._now += ms;
+    return this;
+  }
+}
+
+// One call of the batch function.
+export type RecordedBatch<K> = {
+  keys: ReadonlyArray<K>;
+  startedAt: number;
+  // Null until the batch function settles.
+  settledAt: number | null;
+  error: unknown;
+};
+
+/**
+ * Records every call of a batch function wrapped by `wrap()`, and the loads
+ * and cache hits reported by its `instrumentation`.
+ */
+export class BatchRecorder<K> {
+  constructor(options?: { now?: () => number }) {
+    this._now = (options && options.now) || Date.now;
+    this.batches = [];
+    this.loads = [];
+    this.cacheHits = [];
+    this.instrumentation = {
+      onLoad: (key) => {
+        this.loads.push(key);
+      },
+      onCacheHit: (key) => {
+        this.cacheHits.push(key);
+      },
+    };
+  }
+
+  // Every call of the batch function, in call order.
+  batches: Array<RecordedBatch<K>>;
+  // Every key loaded, and every key served from the cache.
+  loads: Array<K>;
+  cacheHits: Array<K>;
+  // To be given as the `instrumentation` option.
+  readonly instrumentation: Instrumentation<K>;
+
+  // Private
+  _now: () => number;
+
+  /**
+   * Wraps a batch function so that its calls are recorded.
+   */
+  wrap<V>(batchLoadFn: BatchLoadFn<K, V>): BatchLoadFn<K, V> {
+    return (keys, context) => {
+      let batch: RecordedBatch<K> = {
+        keys: keys.slice(),
+        startedAt: this._now(),
+        settledAt: null,
+        error: undefined,
+      };
+      this.batches.push(batch);
+      let result = batchLoadFn(keys, context);
+      if (result && typeof (result as Promise<unknown>).then === "function") {
+        (result as Promise<unknown>).then(
+          () => {
+            batch.settledAt = this._now();
+          },
+          (error) => {
+            batch.settledAt = this._now();
+            batch.error = error;
+          }
+        );
+      }
+      return result;
+    };
+  }
+
+  /**
+   * The keys of every recorded batch, in call order.
+   */
+  get dispatchedKeys(): Array<ReadonlyArray<K>> {
+    return this.batches.map((batch) => batch.keys);
+  }
+
+  reset(): void {
+    this.batches = [];
+    this.loads = [];
+    this.cacheHits = [];
+  }
+}
+
+/**
+ * Creates a DataLoader whose batches are dispatched by a VirtualScheduler and
+ * recorded by a BatchRecorder. The `batchScheduleFn` and `instrumentation`
+ * options are taken over; hooks given in `instrumentation` other than onLoad
+ * and onCacheHit are kept.
+ */
+export function createTestLoader<K, V, C = K>(
+  batchLoadFn: BatchLoadFn<K, V>,
+  options?: Options<K, V, C>
+): {
+  loader: DataLoader<K, V, C>;
+  scheduler: VirtualScheduler;
+  recorder: BatchRecorder<K>;
+} {
+  let scheduler = new VirtualScheduler();
+  let recorder = new BatchRecorder<K>({ now: scheduler.now });
+  let loader = new DataLoader(recorder.wrap(batchLoadFn), {
+    ...options,
+    batchScheduleFn: scheduler.batchScheduleFn,
+    instrumentation: {
+      ...(options && options.instrumentation),
+      ...recorder.instrumentation,
+    },
+  });
+  return { loader, scheduler, recorder };
+}
+
+// Jest matchers for a BatchRecorder, for use with `expect.extend()`.
+export const dataLoaderMatchers = {
+  toHaveDispatchedBatches(
+    this: jest.MatcherContext,
+    recorder: BatchRecorder<unknown>,
+    expected: ReadonlyArray<ReadonlyArray<unknown>>
+  ): jest.CustomMatcherResult {
+    let actual = recorder.dispatchedKeys;
+    let pass = this.equals(actual, expected);
+    return {
+      pass,
+      message: () =>
+        `expected the batch function ${pass ? "not " : ""}to have been ` +
+        `called with the batches ${this.utils.printExpected(expected)}, ` +
+        `but it was called with ${this.utils.printReceived(actual)}`,
+    };
+  },
+
+  toHaveCacheHits(
+    this: jest.MatcherContext,
+    recorder: BatchRecorder<unknown>,
+    expected: number
+  ): jest.CustomMatcherResult {
+    let actual = recorder.cacheHits.length;
+    let pass = actual === expected;
+    return {
+      pass,
+      message: () =>
+        `expected ${pass ? "not " : ""}${this.utils.printExpected(expected)} ` +
+        `cache hit(s), but there were ${this.utils.printReceived(actual)}: ` +
+        this.utils.printReceived(recorder.cacheHits),
+    };
+  },
+};
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      toHaveDispatchedBatches(
+        expected: ReadonlyArray<ReadonlyArray<unknown>>
+      ): R;
+      toHaveCacheHits(expected: number): R;
+    }
+  }
+}
+
+// Private: waits for the microtasks and ticks queued so far to run.
+function settleTasks(): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, 0);
+  });
+}
@@ -0,0 +1,76 @@
+import { TieredDataLoaderFactory } from "./dataloader-tiered";
+
+// 两个请求各自 create() 的 loader 共享 L2, 一个请求的中止或销毁不能影响另一个请求
+
+describe("TieredDataLoaderFactory", () => {
+  function createFactory() {
+    const batches: Array<ReadonlyArray<number>> = [];
+    const factory = new TieredDataLoaderFactory<number, string>(
+      async (keys) => {
+        batches.push(keys.slice());
+        return keys.map((key) => `v${key}`);
+      }
+    );
+    return { factory, batches };
+  }
+
+  it("shares loaded values between loaders through the L2", async () => {
+    const { factory, batches } = createFactory();
+    await factory.create().load(1);
+    await expect(factory.create().load(1)).resolves.toBe("v1");
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("evicts a key from every loader when one of them clears it", async () => {
+    const { factory, batches } = createFactory();
+    const a = factory.create();
+    const b = factory.create();
+    await a.load(1);
+    await b.load(1);
+    a.clear(1);
+    await b.load(1);
+    expect(batches).toEqual([[1], [1]]);
+  });
+
+  it("still loads a key for one loader when another aborts it", async () => {
+    const { factory, batches } = createFactory();
+    const a = factory.create();
+    const b = factory.create();
+    const controller = new AbortController();
+    const aborted = a.load(1, { signal: controller.signal });
+    const loaded = b.load(1);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    await expect(loaded).resolves.toBe("v1");
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("still loads a key for one loader when another is disposed of", async () => {
+    const { factory } = createFactory();
+    const a = factory.create();
+    const b = factory.create();
+    const disposed = a.load(1);
+    const loaded = b.load(1);
+    a.dispose();
+
+    await expect(disposed).rejects.toThrow("was disposed of");
+    await expect(loaded).resolves.toBe("v1");
+  });
+
+  it("does not share the failure of one loader's batch", async () => {
+    let calls = 0;
+    const factory = new TieredDataLoaderFactory<number, string>(
+      async (keys) => {
+        if (++calls === 1) {
+          throw new Error("unavailable");
+        }
+        return keys.map((key) => `v${key}`);
+      }
+    );
+    const failed = factory.create().load(1);
+    const loaded = factory.create().load(1);
+    await expect(failed).rejects.toThrow("unavailable");
+    await expect(loaded).resolves.toBe("v1");
+  });
+});
@@ -0,0 +1,273 @@
+import DataLoader from "./dataloader";
+import type { BatchLoadFn, CacheMap, Options } from "./dataloader";
+
+// Two-tier caching for per-request loaders:
+// 每个请求仍然创建新的 DataLoader 实例(L1 缓存随请求销毁),
+// 同一个工厂创建的所有实例共享进程级的 L2 缓存, 失效通过 InvalidationBus 广播
+//
+//     const users = new TieredDataLoaderFactory(batchLoadUsers, {
+//       l2: lru({ max: 10000, ttl: 60000 }),
+//     });
+//
+//     // per request
+//     const context = { dataloaders: { users: users.create() } };
+//
+//     // after a mutation, in this or any other request
+//     context.dataloaders.users.clear(id); // or users.invalidate(id)
+
+export type TieredOptions<K, V, C = K> = Omit<
+  Options<K, V, C>,
+  "cache" | "cacheMap"
+> & {
+  // Default `new Map()`. The process-wide cache shared by every loader the
+  // factory creates. A bounded cache such as `lru({ max, ttl })` is advised.
+  l2?: CacheMap<C, Promise<V>>;
+  // Default a new bus. May be shared by several factories caching the same
+  // entities, or fed by an external event source.
+  bus?: InvalidationBus<C>;
+};
+
+/**
+ * Broadcasts invalidations of cache keys. Rather than keeping a reference to
+ * every live L1 cache, which would keep finished requests from being garbage
+ * collected, the bus stamps each L1 entry when it is set and remembers when
+ * each key was last invalidated: an L1 entry older than the invalidation of
+ * its key is stale, and is evicted when it is next read.
+ *
+ * At most `maxInvalidations` keys are remembered. Beyond that the bus forgets
+ * them all and instead treats every entry stamped before then as stale.
+ */
+export class InvalidationBus<C> {
+  constructor(options?: { maxInvalidations?: number }) {
+    this._maxInvalidations = (options && options.maxInvalidations) || 10000;
+    this._clock = 0;
+    this._clearedAt = 0;
+    this._invalidatedAt = new Map();
+    this._listeners = [];
+  }
+
+  // Private
+  _maxInvalidations: number;
+  _clock: number;
+  _clearedAt: number;
+  _invalidatedAt: Map<C, number>;
+  _listeners: Array<(key: C | null) => void>;
+
+  /**
+   * The stamp to record on a cache entry set now.
+   */
+  now(): number {
+    return this._clock;
+  }
+
+  /**
+   * Whether an entry for `key` stamped at `stamp` has since been invalidated.
+   */
+  isStale(key: C, stamp: number): boolean {
+    if (this._clearedAt > stamp) {
+      return true;
+    }
+    let invalidatedAt = this._invalidatedAt.get(key);
+    return invalidatedAt !== undefined && invalidatedAt > stamp;
+  }
+
+  /**
+   * Invalidates `key` in every L1 cache, and notifies every listener, which
+   * includes the L2 cache of each factory using this bus.
+   */
+  invalidate(key: C): void {
+    let stamp = ++this._clock;
+    if (this._invalidatedAt.size >= this._maxInvalidations) {
+      this._invalidatedAt.clear();
+      this._clearedAt = stamp;
+    } else {
+      this._invalidatedAt.set(key, stamp);
+    }
+    this._notify(key);
+  }
+
+  /**
+   * Invalidates every key. Listeners are notified with `null`.
+   */
+  invalidateAll(): void {
+    this._clearedAt = ++this._clock;
+    this._invalidatedAt.clear();
+    this._notify(null);
+  }
+
+  /**
+   * Calls `listener` with every invalidated key, or `null` for all keys, e.g.
+   * to forward invalidations to other processes. Returns a function which
+   * removes the listener.
+   */
+  subscribe(listener: (key: C | null) => void): () => void {
+    this._listeners.push(listener);
+    return () => {
+      let index = this._listeners.indexOf(listener);
+      if (index !== -1) {
+        this._listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Private
+  _notify(key: C | null) {
+    let listeners = this._listeners.slice();
+    for (let i = 0; i < listeners.length; i++) {
+      listeners[i](key);
+    }
+  }
+}
+
+// Private: an L1 entry, stamped by the bus when it was set.
+type L1Entry<V> = {
+  value: Promise<V>;
+  stamp: number;
+};
+
+/**
+ * The `CacheMap` of a loader created by a `TieredDataLoaderFactory`. Reads
+ * fall through from its own L1 to the shared L2, and writes go to both, to the
+ * L2 once their value has loaded. `delete` invalidates the key through the
+ * bus, and so everywhere, whereas `clear` only empties this loader's L1.
+ */
+export class TieredCacheMap<C, V> implements CacheMap<C, Promise<V>> {
+  constructor(l2: CacheMap<C, Promise<V>>, bus: InvalidationBus<C>) {
+    this._l1 = new Map();
+    this._l2 = l2;
+    this._bus = bus;
+  }
+
+  // Private
+  _l1: Map<C, L1Entry<V>>;
+  _l2: CacheMap<C, Promise<V>>;
+  _bus: InvalidationBus<C>;
+
+  get(key: C): Promise<V> | void {
+    let entry = this._l1.get(key);
+    if (entry !== undefined) {
+      if (!this._bus.isStale(key, entry.stamp)) {
+        return entry.value;
+      }
+      this._l1.delete(key);
+    }
+    let shared = this._l2.get(key);
+    if (shared) {
+      this._l1.set(key, { value: shared, stamp: this._bus.now() });
+    }
+    return shared;
+  }
+
+  set(key: C, value: Promise<V>): this {
+    let entry = { value, stamp: this._bus.now() };
+    this._l1.set(key, entry);
+    // A pending Promise is only shared once it has resolved, since until then
+    // it belongs to the batch of the loader which set it: aborting or
+    // disposing of that loader would otherwise settle, or strand, the loads
+    // of other requests. An Error is only cached for the request which
+    // loaded it.
+    value.then(
+      () => {
+        if (
+          this._l1.get(key) === entry &&
+          !this._bus.isStale(key, entry.stamp)
+        ) {
+          this._l2.set(key, value);
+        }
+      },
+      () => {}
+    );
+    return this;
+  }
+
+  delete(key: C): void {
+    this._l1.delete(key);
+    this._bus.invalidate(key);
+  }
+
+  clear(): void {
+    this._l1.clear();
+  }
+
+  /**
+   * Calls `callback` with each entry of this loader's L1 which has not been
+   * invalidated. Entries only in the L2 are not visited.
+   */
+  forEach(callback: (value: Promise<V>, key: C) => void): void {
+    this._l1.forEach((entry, key) => {
+      if (!this._bus.isStale(key, entry.stamp)) {
+        callback(entry.value, key);
+      }
+    });
+  }
+}
+
+/**
+ * Creates per-request `DataLoader`s which share an L2 cache. Each loader keeps
+ * its own L1 cache, and `loader.clear(key)` on any of them, like
+ * `factory.invalidate(key)`, evicts the key from the L2 cache and from the L1
+ * cache of every loader the factory created.
+ *
+ * Values in the L2 cache are shared between requests, so they should be
+ * treated as immutable, and must not depend on who is asking for them.
+ */
+export class TieredDataLoaderFactory<K, V, C = K> {
+  constructor(
+    batchLoadFn: BatchLoadFn<K, V>,
+    options?: TieredOptions<K, V, C>
+  ) {
+    let { l2, bus, ...loaderOptions } =
+      options || ({} as TieredOptions<K, V, C>);
+    this._batchLoadFn = batchLoadFn;
+    this._options = loaderOptions;
+    this._cacheKeyFn =
+      loaderOptions.cacheKeyFn || ((key: K) => key as unknown as C);
+    this.l2 = l2 || new Map();
+    this.bus = bus || new InvalidationBus();
+
+    // L2 随失效广播同步删除, L1 则在下次读取时惰性淘汰
+    let sharedL2 = this.l2;
+    this.bus.subscribe((cacheKey) => {
+      if (cacheKey === null) {
+        sharedL2.clear();
+      } else {
+        sharedL2.delete(cacheKey);
+      }
+    });
+  }
+
+  readonly l2: CacheMap<C, Promise<V>>;
+  readonly bus: InvalidationBus<C>;
+
+  // Private
+  _batchLoadFn: BatchLoadFn<K, V>;
+  _options: Options<K, V, C>;
+  _cacheKeyFn: (key: K) => C;
+
+  /**
+   * Creates a loader for one request, with a fresh L1 cache.
+   */
+  create(): DataLoader<K, V, C> {
+    return new DataLoader(this._batchLoadFn, {
+      ...this._options,
+      cacheMap: new TieredCacheMap(this.l2, this.bus),
+    });
+  }
+
+  /**
+   * Evicts `key` from the L2 cache and from every loader's L1 cache, e.g. in
+   * response to an external change event.
+   */
+  invalidate(key: K): this {
+    this.bus.invalidate(this._cacheKeyFn(key));
+    return this;
+  }
+
+  /**
+   * Evicts every key from the L2 cache and from every loader's L1 cache.
+   */
+  invalidateAll(): this {
+    this.bus.invalidateAll();
+    return this;
+  }
+}
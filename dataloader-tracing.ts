@@ -0,0 +1,112 @@
+import type {
+  Span,
+  SpanAttributeValue,
+  SpanOptions,
+  Tracer,
+} from "./dataloader";
+
+// An in-memory Tracer, which records spans so that batching can be verified
+// without an external collector:
+//
+//     const tracer = new InMemoryTracer();
+//     const loader = new DataLoader(batchLoadFn, { tracer, name: "users" });
+//
+//     await tracer.withSpan("resolve user", () => loader.load(1));
+//     tracer.spans; // [resolve user, DataLoader.dispatchBatch]
+//
+// 不依赖外部采集器, 便于在测试中断言某次 load 被合并进了哪个 batch
+
+export class InMemorySpan implements Span {
+  constructor(name: string, options: SpanOptions, now: () => number) {
+    this.name = name;
+    this.links = options.links ? options.links.slice() : [];
+    this.attributes = {};
+    this.startTime = now();
+    this.endTime = null;
+    this._now = now;
+  }
+
+  readonly name: string;
+  readonly links: ReadonlyArray<Span>;
+  readonly attributes: { [key: string]: SpanAttributeValue };
+  readonly startTime: number;
+  endTime: number | null;
+
+  // Private
+  _now: () => number;
+
+  get ended(): boolean {
+    return this.endTime !== null;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): void {
+    this.attributes[key] = value;
+  }
+
+  end(): void {
+    if (this.endTime === null) {
+      this.endTime = this._now();
+    }
+  }
+}
+
+export class InMemoryTracer implements Tracer {
+  constructor(options?: { now?: () => number }) {
+    this._now = (options && options.now) || Date.now;
+    this._activeSpan = undefined;
+    this.spans = [];
+  }
+
+  // Every span started, in start order.
+  spans: Array<InMemorySpan>;
+
+  // Private
+  _now: () => number;
+  _activeSpan: InMemorySpan | undefined;
+
+  startSpan(name: string, options?: SpanOptions): InMemorySpan {
+    let span = new InMemorySpan(name, options || {}, this._now);
+    this.spans.push(span);
+    return span;
+  }
+
+  getActiveSpan(): InMemorySpan | undefined {
+    return this._activeSpan;
+  }
+
+  /**
+   * Starts a span named `name` and makes it the active span while `fn` runs
+   * synchronously, so that loads made by `fn` are linked to it. The span ends
+   * once the result of `fn` settles.
+   */
+  withSpan<T>(name: string, fn: (span: InMemorySpan) => T): T {
+    let span = this.startSpan(name);
+    let previousSpan = this._activeSpan;
+    this._activeSpan = span;
+    let result;
+    try {
+      result = fn(span);
+    } catch (error) {
+      span.end();
+      throw error;
+    } finally {
+      this._activeSpan = previousSpan;
+    }
+    Promise.resolve(result).then(
+      () => span.end(),
+      () => span.end()
+    );
+    return result;
+  }
+
+  /**
+   * Returns the spans named `name`, e.g. `"DataLoader.dispatchBatch"`.
+   */
+  findSpans(name: string): Array<InMemorySpan> {
+    return this.spans.filter((span) => span.name === name);
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
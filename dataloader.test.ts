@@ -0,0 +1,420 @@
+import DataLoader from "./dataloader";
+import type { Options } from "./dataloader";
+import { BatchTimeoutError, KeyNotFoundError } from "./dataloader-errors";
+
+// A loader of "v<key>", recording the keys of every batch.
+function createLoader(options?: Options<number, string>) {
+  const batches: Array<ReadonlyArray<number>> = [];
+  const loader = new DataLoader<number, string>(async (keys) => {
+    batches.push(keys.slice());
+    return keys.map((key) => `v${key}`);
+  }, options);
+  return { loader, batches };
+}
+
+describe("update", () => {
+  it("replaces a loaded value", async () => {
+    const { loader, batches } = createLoader();
+    await loader.load(1);
+    loader.update(1, (value) => `${value}!`);
+    await expect(loader.load(1)).resolves.toBe("v1!");
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("replaces a pending value once it has loaded", async () => {
+    const { loader, batches } = createLoader();
+    const loaded = loader.load(1);
+    loader.update(1, (value) => `${value}!`);
+    await expect(loaded).resolves.toBe("v1");
+    await expect(loader.load(1)).resolves.toBe("v1!");
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("loads a pending key again once its only load is aborted", async () => {
+    const { loader, batches } = createLoader();
+    const controller = new AbortController();
+    const aborted = loader.load(1, { signal: controller.signal });
+    loader.update(1, (value) => `${value}!`);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    await expect(loader.load(1)).resolves.toBe("v1");
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("loads a pending key again once its batch has failed", async () => {
+    let calls = 0;
+    const loader = new DataLoader<number, string>(async (keys) => {
+      if (++calls === 1) {
+        throw new Error("unavailable");
+      }
+      return keys.map((key) => `v${key}`);
+    });
+    const failed = loader.load(1);
+    loader.update(1, (value) => `${value}!`);
+
+    await expect(failed).rejects.toThrow("unavailable");
+    await expect(loader.load(1)).resolves.toBe("v1");
+  });
+});
+
+describe("maxConcurrentBatches", () => {
+  it("frees the slot of a batch function which throws", async () => {
+    let calls = 0;
+    const loader = new DataLoader<number, string>(
+      (keys) => {
+        if (++calls === 1) {
+          throw new Error("unavailable");
+        }
+        return Promise.resolve(keys.map((key) => `v${key}`));
+      },
+      { maxConcurrentBatches: 1 }
+    );
+    await expect(loader.load(1)).rejects.toThrow("unavailable");
+    await expect(loader.load(2)).resolves.toBe("v2");
+  });
+});
+
+describe("batchWindow", () => {
+  it("resolves a batch of only cache hits without waiting for the window", async () => {
+    const { loader, batches } = createLoader({
+      batchWindow: { maxWaitMs: 60000 },
+    });
+    loader.prime(1, "primed");
+    await expect(loader.load(1)).resolves.toBe("primed");
+    expect(batches).toEqual([]);
+  });
+
+  it("waits for the window when a batch holds keys to load", async () => {
+    jest.useFakeTimers();
+    try {
+      const { loader, batches } = createLoader({
+        batchWindow: { maxWaitMs: 100 },
+      });
+      loader.prime(1, "primed");
+      const values = Promise.all([loader.load(1), loader.load(2)]);
+      await Promise.resolve();
+      jest.advanceTimersByTime(99);
+      expect(batches).toEqual([]);
+      jest.advanceTimersByTime(1);
+      await expect(values).resolves.toEqual(["primed", "v2"]);
+      expect(batches).toEqual([[2]]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("clearByTag", () => {
+  it("drops the tags of a value replaced by set()", async () => {
+    const { loader, batches } = createLoader();
+    await loader.load(1, { tags: ["old"] });
+    loader.set(1, "new", { tags: ["new"] });
+    loader.clearByTag("old");
+    await expect(loader.load(1)).resolves.toBe("new");
+    loader.clearByTag("new");
+    await expect(loader.load(1)).resolves.toBe("v1");
+    expect(batches).toEqual([[1], [1]]);
+  });
+
+  it("tags a value replaced by set() by the tagsOf option", async () => {
+    const { loader, batches } = createLoader({
+      tagsOf: (value) => [`value:${value}`],
+    });
+    await loader.load(1);
+    loader.set(1, "new");
+    await loader.load(1);
+    loader.clearByTag("value:v1");
+    await expect(loader.load(1)).resolves.toBe("new");
+    loader.clearByTag("value:new");
+    await expect(loader.load(1)).resolves.toBe("v1");
+    expect(batches).toEqual([[1], [1]]);
+  });
+});
+
+describe("abort", () => {
+  it("removes a key aborted before its batch is dispatched", async () => {
+    const { loader, batches } = createLoader();
+    const controller = new AbortController();
+    const aborted = loader.load(1, { signal: controller.signal });
+    const loaded = loader.load(2);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    await expect(loaded).resolves.toBe("v2");
+    expect(batches).toEqual([[2]]);
+  });
+
+  it("still loads a shared key when one of its callers aborts", async () => {
+    const { loader, batches } = createLoader();
+    const controller = new AbortController();
+    const aborted = loader.load(1, { signal: controller.signal });
+    const loaded = loader.load(1);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    await expect(loaded).resolves.toBe("v1");
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("aborts the batch signal once every key of a dispatched batch is abandoned", async () => {
+    const signals: Array<AbortSignal | null> = [];
+    let finish: () => void = () => {};
+    const loader = new DataLoader<number, string>((keys, { signal }) => {
+      signals.push(signal);
+      return new Promise((resolve) => {
+        finish = () => resolve(keys.map((key) => `v${key}`));
+      });
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+    const loads = [
+      loader.load(1, { signal: first.signal }).catch((error) => error),
+      loader.load(2, { signal: second.signal }).catch((error) => error),
+    ];
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(signals).toHaveLength(1);
+
+    first.abort();
+    expect(signals[0]!.aborted).toBe(false);
+    second.abort();
+    expect(signals[0]!.aborted).toBe(true);
+
+    finish();
+    for (const error of await Promise.all(loads)) {
+      expect(error).toMatchObject({ name: "AbortError" });
+    }
+  });
+});
+
+describe("retry", () => {
+  const retry = { baseDelayMs: 0, jitter: false };
+
+  // A loader of "v<key>" whose batch function resolves keys to the Errors
+  // given for each of its first calls.
+  function createFlakyLoader(
+    failures: Array<(key: number) => Error | null>,
+    options?: Options<number, string>
+  ) {
+    const batches: Array<ReadonlyArray<number>> = [];
+    const loader = new DataLoader<number, string>(async (keys) => {
+      const fail = failures[batches.length];
+      batches.push(keys.slice());
+      return keys.map((key) => (fail && fail(key)) || `v${key}`);
+    }, options);
+    return { loader, batches };
+  }
+
+  it("loads a failed batch again", async () => {
+    let calls = 0;
+    const loader = new DataLoader<number, string>(
+      async (keys) => {
+        if (++calls < 3) {
+          throw new Error("busy");
+        }
+        return keys.map((key) => `v${key}`);
+      },
+      { retry }
+    );
+    await expect(
+      Promise.all([loader.load(1), loader.load(2)])
+    ).resolves.toEqual(["v1", "v2"]);
+    expect(calls).toBe(3);
+  });
+
+  it("loads only the keys which resolved to an Error again", async () => {
+    const { loader, batches } = createFlakyLoader(
+      [(key) => (key === 2 ? new Error("busy") : null)],
+      { retry }
+    );
+    await expect(
+      Promise.all([loader.load(1), loader.load(2)])
+    ).resolves.toEqual(["v1", "v2"]);
+    expect(batches).toEqual([[1, 2], [2]]);
+  });
+
+  it("only retries the errors which isRetryable accepts", async () => {
+    const { loader, batches } = createFlakyLoader(
+      [(key) => new Error(key === 1 ? "busy" : "forbidden")],
+      {
+        retry: {
+          ...retry,
+          isRetryable: (error) => error.message === "busy",
+        },
+      }
+    );
+    const loads = [loader.load(1), loader.load(2)];
+    await expect(loads[0]).resolves.toBe("v1");
+    await expect(loads[1]).rejects.toThrow("forbidden");
+    expect(batches).toEqual([[1, 2], [1]]);
+  });
+
+  it("fails once every attempt has failed", async () => {
+    let calls = 0;
+    const loader = new DataLoader<number, string>(
+      async () => {
+        calls++;
+        throw new Error("busy");
+      },
+      { retry: { ...retry, maxAttempts: 2 } }
+    );
+    await expect(loader.load(1)).rejects.toThrow("busy");
+    expect(calls).toBe(2);
+  });
+});
+
+describe("batch streams", () => {
+  // A promise, and the function which resolves it.
+  function deferred() {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>((resolvePromise) => {
+      resolve = resolvePromise;
+    });
+    return { promise, resolve };
+  }
+
+  it("resolves each load as soon as its entry arrives", async () => {
+    const gate = deferred();
+    const loader = new DataLoader<number, string>(async function* (keys) {
+      yield [keys[1], `v${keys[1]}`] as const;
+      await gate.promise;
+      yield [keys[0], `v${keys[0]}`] as const;
+    });
+    const first = loader.load(1);
+    const second = loader.load(2);
+    let settledFirst = false;
+    first.then(() => {
+      settledFirst = true;
+    });
+
+    await expect(second).resolves.toBe("v2");
+    expect(settledFirst).toBe(false);
+    gate.resolve();
+    await expect(first).resolves.toBe("v1");
+  });
+
+  it('matches entries by index with streamEntries: "index"', async () => {
+    const loader = new DataLoader<{ id: number }, string>(
+      async function* (keys) {
+        for (let i = keys.length - 1; i >= 0; i--) {
+          yield [i, `v${keys[i].id}`] as const;
+        }
+      },
+      { streamEntries: "index" }
+    );
+    await expect(
+      Promise.all([loader.load({ id: 1 }), loader.load({ id: 2 })])
+    ).resolves.toEqual(["v1", "v2"]);
+  });
+
+  it("rejects the keys not yet settled when the stream throws", async () => {
+    const cause = new Error("connection reset");
+    const loader = new DataLoader<number, string>(async function* (keys) {
+      yield [keys[0], `v${keys[0]}`] as const;
+      throw cause;
+    });
+    const loads = [loader.load(1), loader.load(2)];
+    await expect(loads[0]).resolves.toBe("v1");
+    await expect(loads[1]).rejects.toMatchObject({ cause });
+  });
+
+  it("rejects the keys missing from the stream once it ends", async () => {
+    const loader = new DataLoader<number, string>(async function* (keys) {
+      yield [keys[0], `v${keys[0]}`] as const;
+    });
+    const loads = [loader.load(1), loader.load(2)];
+    await expect(loads[0]).resolves.toBe("v1");
+    await expect(loads[1]).rejects.toBeInstanceOf(KeyNotFoundError);
+  });
+});
+
+describe("batchTimeoutMs", () => {
+  it("fails a batch which does not settle in time, and frees its slot", async () => {
+    const signals: Array<AbortSignal | null> = [];
+    let finishLate: () => void = () => {};
+    const loader = new DataLoader<number, string>(
+      (keys, { signal }) => {
+        signals.push(signal);
+        if (signals.length > 1) {
+          return Promise.resolve(keys.map((key) => `v${key}`));
+        }
+        return new Promise((resolve) => {
+          finishLate = () => resolve(keys.map((key) => `late ${key}`));
+        });
+      },
+      { batchTimeoutMs: 10, maxConcurrentBatches: 1 }
+    );
+
+    await expect(loader.load(1)).rejects.toBeInstanceOf(BatchTimeoutError);
+    expect(signals[0]!.aborted).toBe(true);
+
+    // The failed key is not cached, and the slot is free for its next load.
+    await expect(loader.load(1)).resolves.toBe("v1");
+    expect(signals).toHaveLength(2);
+
+    // Late results are discarded.
+    finishLate();
+    await new Promise((resolve) => setTimeout(resolve));
+    await expect(loader.load(1)).resolves.toBe("v1");
+  });
+});
+
+describe("asyncCacheMap", () => {
+  // An async cache backed by a Map.
+  function createAsyncCache(entries: Array<[number, string]> = []) {
+    const values = new Map(entries);
+    return {
+      values,
+      get: async (key: number) => values.get(key),
+      set: async (key: number, value: string) => {
+        values.set(key, value);
+      },
+      delete: async (key: number) => {
+        values.delete(key);
+      },
+    };
+  }
+
+  it("resolves the keys found in the async cache", async () => {
+    const asyncCacheMap = createAsyncCache([
+      [1, "cached 1"],
+      [2, "cached 2"],
+    ]);
+    const { loader, batches } = createLoader({ asyncCacheMap });
+    await expect(
+      Promise.all([loader.load(1), loader.load(2)])
+    ).resolves.toEqual(["cached 1", "cached 2"]);
+    expect(batches).toEqual([]);
+  });
+
+  it("loads the misses as one smaller batch, and stores their values", async () => {
+    const asyncCacheMap = createAsyncCache([[2, "cached 2"]]);
+    const { loader, batches } = createLoader({ asyncCacheMap });
+    await expect(
+      Promise.all([loader.load(1), loader.load(2), loader.load(3)])
+    ).resolves.toEqual(["v1", "cached 2", "v3"]);
+    expect(batches).toEqual([[1, 3]]);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(asyncCacheMap.values.get(3)).toBe("v3");
+  });
+
+  it("falls back to the batch function when the async cache fails", async () => {
+    const logger = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const { loader, batches } = createLoader({
+      asyncCacheMap: {
+        get: () => Promise.reject(new Error("cache unavailable")),
+        set: () => Promise.reject(new Error("cache unavailable")),
+        delete: () => Promise.reject(new Error("cache unavailable")),
+      },
+      logger,
+    });
+    await expect(
+      Promise.all([loader.load(1), loader.load(2)])
+    ).resolves.toEqual(["v1", "v2"]);
+    expect(batches).toEqual([[1, 2]]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "DataLoader asyncCacheMap.get failed.",
+      expect.any(Error)
+    );
+  });
+});
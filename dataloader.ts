@@ -1,9 +1,50 @@
+import {
+  AbortError,
+  BatchFailedError,
+  BatchFunctionContractError,
+  BatchLengthMismatchError,
+  BatchTimeoutError,
+  DataLoaderError,
+  KeyNotFoundError,
+  LoadAllError,
+  describeValue,
+} from "./dataloader-errors";
+import type { DataLoaderErrorDetails } from "./dataloader-errors";
+
 // A Function, which when given an Array of keys, returns a Promise of an Array
-// of values or Errors.
+// of values or Errors, or of a Map from key to value or Error. It may instead
+// return a BatchLoadStream, e.g. by being an async generator function.
 // 批处理函数 即能根据一组id获得对应的结果
 export type BatchLoadFn<K, V> = (
-  keys: Readonly<Array<K>>
-) => Promise<Readonly<Array<V | Error>>>;
+  keys: Readonly<Array<K>>,
+  context: BatchLoadContext
+) => Promise<BatchLoadResult<K, V>> | BatchLoadStream<K, V>;
+
+// Passed to the batch function alongside the keys.
+export type BatchLoadContext = {
+  // Aborted once every load waiting on this batch has been aborted, so the
+  // batch function may stop its back-end query. Null where AbortController is
+  // not available.
+  signal: AbortSignal | null;
+};
+
+// An Array must be in the same order as the keys, unless `keyOf` is provided.
+// A Map may be in any order, and keys missing from it are rejected with a
+// `KeyNotFoundError`.
+export type BatchLoadResult<K, V> =
+  | Readonly<Array<V | Error>>
+  | ReadonlyMap<K, V | Error>;
+
+// Yields `[key, value]` entries, or `[index, value]` entries when the loader's
+// `streamEntries` option is "index", in any order. Each load resolves as soon
+// as its entry arrives, rather than once the whole batch has loaded. Keys still
+// without an entry when the stream ends are rejected with a KeyNotFoundError,
+// and if the stream throws, they are rejected with its error. Entries for keys
+// which are not in the batch are ignored, and Errors in a stream are not
+// retried.
+export type BatchLoadStream<K, V> = AsyncIterable<
+  readonly [K | number, V | Error]
+>;
 
 // Optionally turn off batching or caching or provide a cache key function or a
 // custom cache instance.
@@ -12,16 +53,196 @@ export type BatchLoadFn<K, V> = (
 export type Options<K, V, C = K> = {
   batch?: boolean;
   maxBatchSize?: number;
+  // Default `Infinity`. Limits how many calls of the batch function may be in
+  // flight at once; further batches wait in a queue until one settles.
+  maxConcurrentBatches?: number;
+  // Default `Infinity`. Rejects the loads of a batch with a BatchTimeoutError
+  // once the batch function has not settled for this long, and aborts the
+  // signal given to it. Its late results are discarded.
+  batchTimeoutMs?: number;
   batchScheduleFn?: (callback: () => void) => void;
+  // Default `false`. Batches are only dispatched by dispatch() or
+  // DataLoader.flushAll(), e.g. at the end of a collection phase. A loader
+  // which may be left with batches never dispatched should be disposed of,
+  // see dispose(). Cannot be combined with `batchScheduleFn` or `batchWindow`.
+  manual?: boolean;
+  // Collects loads made across several ticks into one batch, see BatchWindow.
+  // Cannot be combined with `batchScheduleFn`.
+  batchWindow?: BatchWindow;
   // 缓存并非是对返回值的缓存 而是batchLoader入参 键的缓存
   // 举例来说 多个方法传入了有重叠的id 如 1,2,3  2,3,4
   // 由于cache的能力，会自动缓存已录入的id
   cache?: boolean;
+  // Default `true`. Loads of the same cache key within one batch share one
+  // slot of the batch, even when caching is disabled.
+  dedupe?: boolean;
   cacheKeyFn?: (key: K) => C;
+  // Default `new Map()`, which is never evicted. Long-lived loaders should use
+  // a bounded cache such as `lru({ max, ttl })` from ./dataloader-cache.
   cacheMap?: CacheMap<C, Promise<V>> | null;
+  // Default `Infinity`. A cached value older than this is still returned by
+  // load(), but also refreshed in the background, see DataLoader#refresh.
+  staleAfterMs?: number;
+  // A second-level cache, e.g. backed by Redis, consulted for the keys of each
+  // batch before calling the batch function, and filled with the values it
+  // loads. Unlike `cacheMap`, it holds values rather than Promises.
+  asyncCacheMap?: AsyncCacheMap<C, V>;
+  // Extracts the key from a loaded value, so the batch function may return an
+  // Array of values in any order, with missing keys left out.
+  keyOf?: (value: V) => K;
+  // Default "key". Whether the entries of a BatchLoadStream are keyed by the
+  // key, or by its index in the Array of keys.
+  streamEntries?: "key" | "index";
+  // Tags each loaded value, so that it can be cleared by clearByTag().
+  tagsOf?: (value: V) => ReadonlyArray<string>;
+  // Retries a batch which rejects, and keys which resolve to an Error. Off by
+  // default.
+  retry?: RetryOptions;
+  // Hooks into the lifecycle of loads and batches, e.g. to collect metrics.
+  instrumentation?: Instrumentation<K>;
+  // Receives diagnostic messages. Default none; `console` may be provided.
+  logger?: Logger;
+  // Traces every call of the batch function as a span.
+  tracer?: Tracer;
+  // Identifies this loader in spans and diagnostics.
+  name?: string;
+};
+
+// Lifecycle hooks. Each is optional, and is called synchronously, so it should
+// be cheap and must not throw.
+export type Instrumentation<K> = {
+  // A key is loaded, whether or not it is then served from the cache.
+  onLoad?: (key: K) => void;
+  // A loaded key is served from the cache.
+  onCacheHit?: (key: K) => void;
+  // A new batch is created and its dispatch scheduled.
+  onBatchScheduled?: () => void;
+  // The batch function is called, including for every retry.
+  onBatchDispatch?: (keys: ReadonlyArray<K>) => void;
+  // The batch function resolved. `errors` holds the Errors among the values.
+  onBatchResolved?: (durationMs: number, errors: ReadonlyArray<Error>) => void;
+  // The batch function rejected or did not honour its contract.
+  onBatchFailed?: (error: Error, durationMs: number) => void;
+};
+
+// A minimal tracing API, which OpenTelemetry or similar tracers can be adapted
+// to. See ./dataloader-tracing for an in-memory implementation.
+export type Tracer = {
+  startSpan(name: string, options?: SpanOptions): Span;
+  // The span of the code currently calling load(), if the tracer tracks one.
+  // The span of each batch is linked to the spans of the loads it contains.
+  getActiveSpan?(): Span | undefined;
+};
+
+export type SpanOptions = {
+  links?: ReadonlyArray<Span>;
+};
+
+export type Span = {
+  setAttribute(key: string, value: SpanAttributeValue): void;
+  end(): void;
+};
+
+export type SpanAttributeValue = string | number | boolean;
+
+// A subset of `console`.
+export type Logger = {
+  debug(message: string, ...args: Array<unknown>): void;
+  warn(message: string, ...args: Array<unknown>): void;
+  error(message: string, ...args: Array<unknown>): void;
+};
+
+// A batch is dispatched `maxWaitMs` after its first load, or as soon as it
+// holds `minBatchSize` (or `maxBatchSize`) keys, whichever comes first. Loads
+// made in the same tick as the one filling the batch still join it. A batch
+// of only cache hits does not wait, and resolves after the current tick.
+export type BatchWindow = {
+  maxWaitMs: number;
+  // Default `Infinity`, that is, always wait for `maxWaitMs`.
+  minBatchSize?: number;
+};
+
+// A snapshot of a loader's batches, see DataLoader#getStats.
+export type DataLoaderStats = {
+  // Calls of the batch function which have not settled yet.
+  inFlightBatches: number;
+  // Dispatched batches waiting for `maxConcurrentBatches` to allow them.
+  queuedBatches: number;
+};
+
+// Configures retries with exponential backoff. A key is retried at most
+// `maxAttempts - 1` times, waiting `baseDelayMs * 2 ** (attempt - 1)` (capped
+// at `maxDelayMs`) before each retry. KeyNotFoundErrors are never retried.
+export type RetryOptions = {
+  // Default 3. Total number of attempts, including the first.
+  maxAttempts?: number;
+  // Default 100. Delay before the first retry, doubled for every further one.
+  baseDelayMs?: number;
+  // Default 5000. Upper bound of the delay between two attempts.
+  maxDelayMs?: number;
+  // Default true. Waits a random delay between 0 and the backoff, so that
+  // batches failing together do not retry together.
+  jitter?: boolean;
+  // Default retries every error. Decides whether an error is transient.
+  isRetryable?: (error: Error) => boolean;
+};
+
+// If an async cache is provided, it must be of this type. `get` resolves to
+// undefined for a miss. Failures of any method are logged and otherwise
+// ignored, so that an unavailable cache falls back to the batch function.
+export type AsyncCacheMap<K, V> = {
+  get(key: K): Promise<V | void>;
+  set(key: K, value: V): Promise<any>;
+  delete(key: K): Promise<any>;
+};
+
+// Values to add to the cache by primeMany() or setMany(): a Map, an Array of
+// `[key, value]` entries, or, when the loader has a `keyOf` option, an Array
+// of values.
+export type CacheEntries<K, V> =
+  | ReadonlyMap<K, V | Error>
+  | ReadonlyArray<readonly [K, V | Error]>
+  | ReadonlyArray<V>;
+
+// Options for a single call to load() or loadMany().
+export type LoadOptions = {
+  // Withdraws the load when aborted. The returned Promise rejects with an
+  // AbortError, and a key not yet dispatched is removed from its batch.
+  signal?: AbortSignal;
+  // Tags the cached value of the key, so that it can be cleared by
+  // clearByTag(), e.g. `{ tags: ["tenant:42"] }`.
+  tags?: ReadonlyArray<string>;
+};
+
+// Options for prime() and set().
+export type PrimeOptions = {
+  tags?: ReadonlyArray<string>;
+};
+
+// Loads the rows of every key at once, e.g. all pets whose owner is one of the
+// keys, in any order. See DataLoader.oneToMany().
+export type OneToManyFetchFn<K, V> = (
+  keys: ReadonlyArray<K>,
+  context: BatchLoadContext
+) => Promise<ReadonlyArray<V>>;
+
+export type OneToManyOptions<K, V, C = K> = Omit<
+  Options<K, Array<V>, C>,
+  "keyOf"
+> & {
+  // Reads the key a row belongs to, e.g. `(pet) => pet.ownerId`.
+  groupBy: (value: V) => K;
+  // Primes each row into a loader of single rows, under `keyOf(row)`, e.g.
+  // `{ loader: pets, keyOf: (pet) => pet.id }`.
+  primeRows?: {
+    loader: DataLoader<any, V, any>;
+    keyOf: (value: V) => any;
+  };
 };
 
 // If a custom cache is provided, it must be of this type (a subset of ES6 Map).
+// clearWhere() additionally requires it to implement `forEach`, see
+// IterableCacheMap.
 export type CacheMap<K, V> = {
   get(key: K): V | void;
   set(key: K, value: V): any;
@@ -29,15 +250,52 @@ export type CacheMap<K, V> = {
   clear(): any;
 };
 
+// A CacheMap which can be iterated like an ES6 Map.
+export type IterableCacheMap<K, V> = CacheMap<K, V> & {
+  forEach(callback: (value: V, key: K) => void): void;
+};
+
 // Private: Describes a batch of requests
 type Batch<K, V> = {
+  // Counts the batches of a loader from 1. A retry keeps the id of its batch.
+  id: number;
   hasDispatched: boolean;
   keys: Array<K>;
-  callbacks: Array<{
-    resolve: (value: V) => void;
-    reject: (error: Error) => void;
-  }>;
+  callbacks: Array<PendingLoad<K, V>>;
   cacheHits?: Array<() => void>;
+  // Number of dispatched loads which every caller has since aborted, and the
+  // controller behind the signal given to the batch function.
+  abandoned?: number;
+  abortController?: AbortController | null;
+  // Active spans of the loads which added keys to this batch.
+  callerSpans?: Array<Span>;
+  // Pending dispatch of a windowed batch, cleared once it is sent early.
+  windowTimer?: ReturnType<typeof setTimeout> | null;
+  // Promise of each cache key in this batch, when deduping without a cache.
+  dedupedLoads?: Map<unknown, Promise<V>>;
+  // Copy of the keys shared by every error concerning this batch, made by
+  // the first one.
+  errorKeys?: ReadonlyArray<K>;
+};
+
+// Private: RetryOptions with defaults applied.
+type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  isRetryable: (error: Error) => boolean;
+};
+
+// Private: the callbacks of a key in a batch. `waiters` counts the loads which
+// share its Promise, including cache hits, so that it is only withdrawn once
+// all of them have been aborted. `promise` is the Promise it settles.
+type PendingLoad<K, V> = {
+  resolve: (value: V) => void;
+  reject: (error: Error) => void;
+  batch: Batch<K, V>;
+  waiters: number;
+  promise: Promise<V>;
 };
 
 /**
@@ -70,35 +328,113 @@ export default class DataLoader<K, V, C = K> {
     // 浏览器下使用setTimeout
     // 详见源码讲解中的事件循环部分
     this._batchScheduleFn = getValidBatchScheduleFn(options);
+    // 时间窗口调度: 跨多个tick收集key, 等待maxWaitMs或达到minBatchSize后派发
+    this._batchWindow = getValidBatchWindow(options);
+    // 手动模式: batch 只在调用 dispatch() 或 DataLoader.flushAll() 时派发
+    this._manual = getValidManual(options);
+    this._pendingBatches = [];
 
     // 批处理上限, 比如同时load n条数据
     this._maxBatchSize = getValidMaxBatchSize(options);
 
+    // 并发上限: maxBatchSize拆分出的大量batch排队执行, 避免同时打到数据库
+    this._maxConcurrentBatches = getValidMaxConcurrentBatches(options);
+    this._inFlightBatches = 0;
+    this._batchQueue = [];
+
     // 默认情况下为返回入参的函数
     this._cacheKeyFn = getValidCacheKeyFn(options);
     // 默认情况下为原生Map
     this._cacheMap = getValidCacheMap(options);
+    // 关闭缓存时, 同一batch内相同的key仍然合并为一个
+    this._dedupe = !options || options.dedupe !== false;
+    // 二级缓存(如Redis), 在调用批处理函数前查询, 未命中的key仍合并为一次调用
+    this._asyncCacheMap = getValidAsyncCacheMap(options);
+    // stale-while-revalidate: 过期的缓存值仍会返回, 同时在后台批量刷新
+    this._staleAfterMs = getValidStaleAfterMs(options);
+    this._batchTimeoutMs = getValidBatchTimeoutMs(options);
+    this._refreshing = new Map();
+    // 标签索引: tag -> 缓存key, 以及反向的 缓存key -> tags
+    this._tagsOf = getValidTagsOf(options);
+    this._cacheKeysByTag = new Map();
+    this._tagsByCacheKey = new Map();
+    this._tagIndexPruneAt = MIN_TAG_INDEX_PRUNE_AT;
+
+    // 批处理函数返回无序数组时, 用于从值中取回对应的key
+    this._keyOf = getValidKeyOf(options);
+    this._streamEntries = getValidStreamEntries(options);
+
+    // 重试策略, 未配置时为null, 即失败后立刻reject
+    this._retry = getValidRetryPolicy(options);
+
+    // 生命周期钩子与日志, 用于接入监控指标, 替代原先写死的console.log
+    this._instrumentation = getValidInstrumentation(options);
+    this._logger = getValidLogger(options);
+
+    // 链路追踪, 每次调用批处理函数都会创建一个span
+    this._tracer = getValidTracer(options);
+    this._name = (options && options.name) || "DataLoader";
+
+    // 从缓存的promise找回其所属的batch回调, 以便取消时统计共享该key的调用方
+    this._pendingLoads = new WeakMap();
 
     // 当前的批(不知道咋翻译好点)
     // 内部包括该batch是否已经派发, 注册的key与对应的回调, 以及缓存控制
     this._batch = null;
+    this._batchCount = 0;
   }
 
   // Private
   _batchLoadFn: BatchLoadFn<K, V>;
   _batchScheduleFn: (fn: () => void) => void;
+  _batchWindow: Required<BatchWindow> | null;
 
   _maxBatchSize: number;
 
+  _maxConcurrentBatches: number;
+  _inFlightBatches: number;
+  _batchQueue: Array<() => void>;
+  _manual: boolean;
+  // Batches created but not dispatched yet, oldest first.
+  _pendingBatches: Array<Batch<K, V>>;
+
   _cacheKeyFn: (key: K) => C;
   _cacheMap: CacheMap<C, Promise<V>> | null;
+  _dedupe: boolean;
+  _asyncCacheMap: AsyncCacheMap<C, V> | null;
+  _staleAfterMs: number;
+  _batchTimeoutMs: number;
+  _refreshing: Map<C, Promise<V>>;
+  _tagsOf: ((value: V) => ReadonlyArray<string>) | null;
+  _cacheKeysByTag: Map<string, Set<C>>;
+  _tagsByCacheKey: Map<C, Set<string>>;
+  // The number of tagged cache keys at which the tag index is next pruned.
+  _tagIndexPruneAt: number;
+
+  _keyOf: ((value: V) => K) | null;
+  _streamEntries: "key" | "index";
+
+  _retry: RetryPolicy | null;
+
+  _instrumentation: Instrumentation<K>;
+  _logger: Logger | null;
+
+  _tracer: Tracer | null;
+  _name: string;
+
+  _pendingLoads: WeakMap<Promise<V>, PendingLoad<K, V>>;
 
   _batch: Batch<K, V> | null;
+  _batchCount: number;
 
   /**
    * Loads a key, returning a `Promise` for the value represented by that key.
+   *
+   * A `signal` may be provided to withdraw the load: the Promise then rejects
+   * with an `AbortError`, and if no other load shares the key it is removed
+   * from the batch and the cache before being dispatched.
    */
-  load(key: K): Promise<V> {
+  load(key: K, options?: LoadOptions): Promise<V> {
     // load会被多次调用:
     // 首次调用 创建新的batch(绑定到当前DL实例)
     // 后续调用 将key与回调(resolve reject)挂载到batch的keys和callbacks上
@@ -109,6 +445,16 @@ export default class DataLoader<K, V, C = K> {
       );
     }
 
+    let signal = getValidSignal(options);
+    if (signal && signal.aborted) {
+      return Promise.reject(new AbortError(key));
+    }
+
+    let instrumentation = this._instrumentation;
+    if (instrumentation.onLoad) {
+      instrumentation.onLoad(key);
+    }
+
     // 批处理的批次?
     let batch = getCurrentBatch(this);
 
@@ -123,36 +469,79 @@ export default class DataLoader<K, V, C = K> {
     if (cacheMap) {
       // 可以用upsert代替...
       let cachedPromise = cacheMap.get(cacheKey);
+      // The tags of a key the cache has evicted belonged to its old value.
+      if (!cachedPromise) {
+        untagCacheKey(this, cacheKey);
+      }
+      if (options && options.tags) {
+        tagCacheKey(this, cacheKey, options.tags);
+      }
 
       if (cachedPromise) {
         // 如果这个key对应的函数已经被缓存了
+        if (instrumentation.onCacheHit) {
+          instrumentation.onCacheHit(key);
+        }
+        if (this._tracer) {
+          linkCallerSpan(this._tracer, batch);
+        }
         let cacheHits = batch.cacheHits || (batch.cacheHits = []);
-        return new Promise((resolve) => {
+        let cacheHit: Promise<V> = new Promise((resolve) => {
           cacheHits.push(() => {
             resolve(cachedPromise as V | PromiseLike<V>);
           });
         });
+        if (this._batchWindow && cacheHits.length === 1) {
+          checkCacheHitWindow(this, batch);
+        }
+        // A cache hit on a key which is still pending keeps it in its batch.
+        let pendingLoad = this._pendingLoads.get(cachedPromise);
+        if (pendingLoad) {
+          pendingLoad.waiters++;
+        }
+        // A stale value is served while it is refreshed in the background.
+        if (isStale(this, cachedPromise)) {
+          this.refresh(key).catch(() => {});
+        }
+        return signal
+          ? abortableLoad(this, key, cacheHit, cachedPromise, signal)
+          : cacheHit;
+      }
+    }
+
+    // Without a cache, a key already in this batch shares its Promise.
+    let dedupedLoads: Map<unknown, Promise<V>> | null = null;
+    if (!cacheMap && this._dedupe) {
+      dedupedLoads = batch.dedupedLoads || (batch.dedupedLoads = new Map());
+      let dedupedPromise = dedupedLoads.get(cacheKey);
+      if (dedupedPromise) {
+        (this._pendingLoads.get(dedupedPromise) as PendingLoad<K, V>).waiters++;
+        if (this._tracer) {
+          linkCallerSpan(this._tracer, batch);
+        }
+        return signal
+          ? abortableLoad(this, key, dedupedPromise, dedupedPromise, signal)
+          : dedupedPromise;
       }
     }
 
     // Otherwise, produce a new Promise for this key, and enqueue it to be
     // dispatched along with the current batch.
-    batch.keys.push(key);
-    // 每次调用的key会被记录
-    // console.log(key);
-    const promise: Promise<V> = new Promise((resolve, reject) => {
-      // 这就是为啥key和callback要对应的原因?
-      batch.callbacks.push({ resolve, reject });
-    });
+    const promise = enqueueKey(this, batch, key);
 
     // If caching, cache this promise.
     // 设置缓存
     if (cacheMap) {
       cacheMap.set(cacheKey, promise);
+      trackSettled(this, cacheKey, promise);
+    } else if (dedupedLoads) {
+      dedupedLoads.set(cacheKey, promise);
     }
 
     // 返回的promise会在下个事件循环resolve掉
-    return promise;
+    return signal
+      ? abortableLoad(this, key, promise, promise, signal)
+      : promise;
   }
 
   /**
@@ -174,8 +563,13 @@ export default class DataLoader<K, V, C = K> {
    *     let [ a, b, c ] = await myLoader.loadMany([ 'a', 'b', 'badkey' ]);
    *     // c instanceof Error
    *
+   * The `signal` option is passed on to each load, so aborting it resolves
+   * every key not yet loaded to an `AbortError`.
    */
-  loadMany(keys: Readonly<Array<K>>): Promise<Array<V | Error>> {
+  loadMany(
+    keys: Readonly<Array<K>>,
+    options?: LoadOptions
+  ): Promise<Array<V | Error>> {
     // 批量调用load后使用Promise.all等待所有promise resolve掉
     if (!isArrayLike(keys)) {
       throw new TypeError(
@@ -186,21 +580,128 @@ export default class DataLoader<K, V, C = K> {
     // Support ArrayLike by using only minimal property access
     const loadPromises: Promise<any>[] = [];
     for (let i = 0; i < keys.length; i++) {
-      loadPromises.push(this.load(keys[i]).catch((error) => error));
+      loadPromises.push(this.load(keys[i], options).catch((error) => error));
     }
     return Promise.all(loadPromises);
   }
 
+  /**
+   * Loads multiple keys, promising a Map from each key to its value or Error:
+   *
+   *     let users = await myLoader.loadManyMap([ 1, 2 ]);
+   *     users.get(1);
+   *
+   * Keys which are loaded more than once appear in the Map once.
+   */
+  loadManyMap(
+    keys: Readonly<Array<K>>,
+    options?: LoadOptions
+  ): Promise<Map<K, V | Error>> {
+    return this.loadMany(keys, options).then((values) => {
+      let valuesByKey = new Map<K, V | Error>();
+      for (let i = 0; i < values.length; i++) {
+        valuesByKey.set(keys[i], values[i]);
+      }
+      return valuesByKey;
+    });
+  }
+
+  /**
+   * Loads multiple keys, promising an array of values. Unlike loadMany(), the
+   * Promise rejects if any key fails to load, with a `LoadAllError` listing
+   * every failed key and its Error:
+   *
+   *     try {
+   *       let [ a, b ] = await myLoader.loadAll([ 'a', 'badkey' ]);
+   *     } catch (error) {
+   *       // error.failures: [{ key: 'badkey', error }]
+   *     }
+   *
+   */
+  loadAll(keys: Readonly<Array<K>>, options?: LoadOptions): Promise<Array<V>> {
+    return this.loadMany(keys, options).then((values) => {
+      let failures: Array<{ key: K; error: Error }> = [];
+      for (let i = 0; i < values.length; i++) {
+        let value = values[i];
+        if (value instanceof Error) {
+          failures.push({ key: keys[i], error: value });
+        }
+      }
+      if (failures.length !== 0) {
+        throw new LoadAllError(failures);
+      }
+      return values as Array<V>;
+    });
+  }
+
+  /**
+   * Reloads a key in the next batch, without evicting its cached value: until
+   * the reload succeeds, load() keeps returning the cached value. The cache
+   * is then updated, unless the key was cleared or set in the meantime. A
+   * failed reload leaves the cached value in place. Returns a Promise for the
+   * reloaded value.
+   *
+   * A key which is not cached is simply loaded.
+   */
+  refresh(key: K): Promise<V> {
+    let cacheMap = this._cacheMap;
+    let cacheKey = this._cacheKeyFn(key);
+    let previous = cacheMap && cacheMap.get(cacheKey);
+    if (!cacheMap || !previous) {
+      return this.load(key);
+    }
+
+    // Refreshes of a key already being refreshed share its reload.
+    let refreshing = this._refreshing.get(cacheKey);
+    if (refreshing) {
+      return refreshing;
+    }
+    // A key whose batch has not been dispatched yet is about to be loaded.
+    let pendingLoad = this._pendingLoads.get(previous);
+    if (pendingLoad && !pendingLoad.batch.hasDispatched) {
+      pendingLoad.waiters++;
+      return previous;
+    }
+
+    let promise = enqueueKey(this, getCurrentBatch(this), key);
+    this._refreshing.set(cacheKey, promise);
+    let settle = () => {
+      this._refreshing.delete(cacheKey);
+    };
+    promise.then(() => {
+      settle();
+      if (cacheMap!.get(cacheKey) === previous) {
+        cacheMap!.set(cacheKey, promise);
+        trackSettled(this, cacheKey, promise);
+      }
+    }, settle);
+    return promise;
+  }
+
+  /**
+   * Refreshes multiple keys, promising an array of values or Errors, like
+   * loadMany().
+   */
+  refreshMany(keys: Readonly<Array<K>>): Promise<Array<V | Error>> {
+    if (!isArrayLike(keys)) {
+      throw new TypeError(
+        "The loader.refreshMany() function must be called with Array<key> " +
+          `but got: ${keys}.`
+      );
+    }
+    const refreshPromises: Promise<any>[] = [];
+    for (let i = 0; i < keys.length; i++) {
+      refreshPromises.push(this.refresh(keys[i]).catch((error) => error));
+    }
+    return Promise.all(refreshPromises);
+  }
+
   /**
    * Clears the value at `key` from the cache, if it exists. Returns itself for
    * method chaining.
    */
   clear(key: K): this {
-    let cacheMap = this._cacheMap;
-    if (cacheMap) {
-      let cacheKey = this._cacheKeyFn(key);
-      cacheMap.delete(cacheKey);
-    }
+    clearCacheKey(this, this._cacheKeyFn(key));
     return this;
   }
 
@@ -214,6 +715,68 @@ export default class DataLoader<K, V, C = K> {
     if (cacheMap) {
       cacheMap.clear();
     }
+    this._cacheKeysByTag.clear();
+    this._tagsByCacheKey.clear();
+    return this;
+  }
+
+  /**
+   * Clears every cached value tagged with `tag`, either by the `tags` option
+   * of load(), prime() or set(), or by the `tagsOf` option. The tags of a key
+   * are dropped once the cache evicts it, so a key loaded again is only
+   * cleared by the tags of its new value. Returns itself for method chaining.
+   *
+   *     loader.clearByTag("tenant:42");
+   *
+   */
+  clearByTag(tag: string): this {
+    let cacheKeys = this._cacheKeysByTag.get(tag);
+    if (cacheKeys) {
+      let cacheKeyList: Array<C> = [];
+      cacheKeys.forEach((cacheKey) => {
+        cacheKeyList.push(cacheKey);
+      });
+      for (let i = 0; i < cacheKeyList.length; i++) {
+        clearCacheKey(this, cacheKeyList[i]);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Clears every cached value for which `predicate(cacheKey, value)` returns
+   * true. Only values which have finished loading are considered. Requires
+   * a `cacheMap` which can be iterated with `forEach`, like the default Map.
+   * Returns itself for method chaining.
+   *
+   *     loader.clearWhere((id, user) => user.teamId === teamId);
+   *
+   */
+  clearWhere(predicate: (key: C, value: V) => boolean): this {
+    if (typeof predicate !== "function") {
+      throw new TypeError(
+        `loader.clearWhere() requires a function: ${predicate}`
+      );
+    }
+    let cacheMap = this._cacheMap as IterableCacheMap<C, Promise<V>> | null;
+    if (!cacheMap) {
+      return this;
+    }
+    if (typeof cacheMap.forEach !== "function") {
+      throw new TypeError(
+        "loader.clearWhere() requires a cacheMap with a forEach method."
+      );
+    }
+    let matchingCacheKeys: Array<C> = [];
+    cacheMap.forEach((promise, cacheKey) => {
+      let settled = settledPromises.get(promise);
+      if (settled && predicate(cacheKey, settled.value)) {
+        matchingCacheKeys.push(cacheKey);
+      }
+    });
+    for (let i = 0; i < matchingCacheKeys.length; i++) {
+      clearCacheKey(this, matchingCacheKeys[i]);
+    }
     return this;
   }
 
@@ -223,29 +786,251 @@ export default class DataLoader<K, V, C = K> {
    *
    * To prime the cache with an error at a key, provide an Error instance.
    */
-  prime(key: K, value: V | Error): this {
+  prime(key: K, value: V | Error, options?: PrimeOptions): this {
     let cacheMap = this._cacheMap;
     if (cacheMap) {
       let cacheKey = this._cacheKeyFn(key);
 
       // Only add the key if it does not already exist.
       if (cacheMap.get(cacheKey) === undefined) {
-        // Cache a drejected promise if the value is an Error, in order to match
-        // the behavior of load(key).
-        let promise;
-        if (value instanceof Error) {
-          promise = Promise.reject(value);
-          // Since this is a case where an Error is intentionally being primed
-          // for a given key, we want to disable unhandled promise rejection.
-          promise.catch(() => {});
-        } else {
-          promise = Promise.resolve(value);
-        }
+        let promise = primedPromise(value);
         cacheMap.set(cacheKey, promise);
+        untagCacheKey(this, cacheKey);
+        if (options && options.tags) {
+          tagCacheKey(this, cacheKey, options.tags);
+        }
+        trackSettled(this, cacheKey, promise);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Adds the provided key and value to the cache, replacing any existing
+   * value, e.g. with the result of a mutation. Unlike prime(), the value is
+   * also written to the `asyncCacheMap`, if any. Returns itself for method
+   * chaining.
+   *
+   * To set an error at a key, provide an Error instance.
+   */
+  set(key: K, value: V | Error, options?: PrimeOptions): this {
+    let cacheKey = this._cacheKeyFn(key);
+    let cacheMap = this._cacheMap;
+    if (cacheMap) {
+      let promise = primedPromise(value);
+      cacheMap.set(cacheKey, promise);
+      // The tags of the value it replaces no longer apply.
+      untagCacheKey(this, cacheKey);
+      if (options && options.tags) {
+        tagCacheKey(this, cacheKey, options.tags);
+      }
+      trackSettled(this, cacheKey, promise);
+    }
+    if (!(value instanceof Error)) {
+      writeThrough(this, cacheKey, value);
+    }
+    return this;
+  }
+
+  /**
+   * Replaces the cached value at `key` with `fn(value)`, once the cached value
+   * has loaded. A key which is not cached is left alone, and a cached Error is
+   * kept as it is. A key still loading is only updated if it loads, and is
+   * still cached by then. Returns itself for method chaining.
+   *
+   *     loader.update(id, (user) => ({ ...user, name: newName }));
+   *
+   */
+  update(key: K, fn: (value: V) => V): this {
+    if (typeof fn !== "function") {
+      throw new TypeError(`loader.update() requires a function: ${fn}`);
+    }
+    let cacheMap = this._cacheMap;
+    if (cacheMap) {
+      let cacheKey = this._cacheKeyFn(key);
+      let previous = cacheMap.get(cacheKey);
+      if (previous && settledPromises.has(previous)) {
+        updateCachedValue(this, cacheKey, previous, fn);
+      } else if (previous) {
+        // A pending load stays cached until it settles, so that an abort or a
+        // failure of its batch still evicts it.
+        let pending = previous;
+        pending.then(
+          () => {
+            if (cacheMap!.get(cacheKey) === pending) {
+              updateCachedValue(this, cacheKey, pending, fn);
+            }
+          },
+          () => {}
+        );
       }
     }
     return this;
   }
+
+  /**
+   * Primes the cache with many values at once, e.g. the result of a bulk
+   * query, given as a Map or an Array of `[key, value]` entries. With a
+   * `keyOf` option, an Array of values is expected instead. Keys which
+   * already exist are left unchanged, as with prime(). Returns itself for
+   * method chaining.
+   */
+  primeMany(entries: CacheEntries<K, V>): this {
+    forEachEntry(this, entries, "primeMany", (key, value) => {
+      this.prime(key, value);
+    });
+    return this;
+  }
+
+  /**
+   * Like primeMany(), but replaces existing values, as with set(). Returns
+   * itself for method chaining.
+   */
+  setMany(entries: CacheEntries<K, V>): this {
+    forEachEntry(this, entries, "setMany", (key, value) => {
+      this.set(key, value);
+    });
+    return this;
+  }
+
+  /**
+   * Dispatches every batch which has not been dispatched yet, rather than
+   * waiting for it to be scheduled. Required to send batches of a loader with
+   * the `manual` option. Returns itself for method chaining.
+   *
+   *     const pending = Promise.all(users.map((user) => pets.load(user.petId)));
+   *     pets.dispatch();
+   *
+   */
+  dispatch(): this {
+    let batches = this._pendingBatches.slice();
+    for (let i = 0; i < batches.length; i++) {
+      dispatchBatch(this, batches[i]);
+    }
+    return this;
+  }
+
+  /**
+   * Rejects the loads of every batch which has not been dispatched yet, and
+   * removes them from the cache. Until its batches are dispatched, a loader is
+   * held by DataLoader.flushAll(), together with its pending loads, so a
+   * `manual` loader whose dispatch() may never be called, e.g. because its
+   * request failed first, should be disposed of. Returns itself for method
+   * chaining.
+   */
+  dispose(): this {
+    let batches = this._pendingBatches.slice();
+    for (let i = 0; i < batches.length; i++) {
+      let batch = batches[i];
+      markDispatched(this, batch);
+      failedDispatch(
+        this,
+        batch,
+        new DataLoaderError(
+          `${this._name} was disposed of before batch ${batch.id} of ` +
+            `${batch.keys.length} key(s) was dispatched.`,
+          errorDetails(this, batch)
+        )
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Returns how many batches are in flight, and how many are queued behind
+   * `maxConcurrentBatches`.
+   */
+  getStats(): DataLoaderStats {
+    return {
+      inFlightBatches: this._inFlightBatches,
+      queuedBatches: this._batchQueue.length,
+    };
+  }
+
+  /**
+   * Dispatches the pending batches of every loader, see dispatch(). Loaders
+   * are registered here while they have batches waiting to be dispatched.
+   */
+  static flushAll(): void {
+    let loaders: Array<DataLoader<any, any, any>> = [];
+    loadersWithPendingBatches.forEach((loader) => {
+      loaders.push(loader);
+    });
+    for (let i = 0; i < loaders.length; i++) {
+      loaders[i].dispatch();
+    }
+  }
+
+  /**
+   * Creates a loader of the rows belonging to each key, from a `fetch`
+   * function which loads the rows of all keys as one flat list:
+   *
+   *     const petsByOwner = DataLoader.oneToMany(
+   *       (ownerIds) => db.pets.findMany({ ownerId: { in: ownerIds } }),
+   *       { groupBy: (pet) => pet.ownerId }
+   *     );
+   *
+   *     petsByOwner.load(1); // Promise<Array<Pet>>
+   *
+   * A key without rows resolves to an empty Array.
+   */
+  static oneToMany<K, V, C = K>(
+    fetch: OneToManyFetchFn<K, V>,
+    options: OneToManyOptions<K, V, C>
+  ): DataLoader<K, Array<V>, C> {
+    if (typeof fetch !== "function") {
+      throw new TypeError(
+        "DataLoader.oneToMany() must be called with a function which " +
+          `accepts Array<key> and returns Promise<Array<row>>, but got: ${fetch}.`
+      );
+    }
+    let { groupBy, primeRows, ...loaderOptions } =
+      options || ({} as OneToManyOptions<K, V, C>);
+    if (typeof groupBy !== "function") {
+      throw new TypeError(
+        `DataLoader.oneToMany() requires a groupBy function: ${groupBy}`
+      );
+    }
+    let cacheKeyFn = getValidCacheKeyFn(loaderOptions);
+    return new DataLoader(
+      (keys: ReadonlyArray<K>, context) =>
+        fetch(keys, context).then((rows) => {
+          if (!isArrayLike(rows)) {
+            throw new BatchFunctionContractError(
+              "DataLoader.oneToMany() must be constructed with a function " +
+                "which returns a Promise of an Array of rows, but the function " +
+                `did not return a Promise of an Array: ${describeValue(rows)}.`,
+              {
+                loaderName: loaderOptions.name || "DataLoader",
+                batchId: null,
+                keys: keys.slice(),
+                value: rows,
+              }
+            );
+          }
+          // 按外键分组, 没有任何行的 key 得到空数组
+          let rowsByCacheKey = new Map<C, Array<V>>();
+          for (let i = 0; i < rows.length; i++) {
+            let cacheKey = cacheKeyFn(groupBy(rows[i]));
+            let group = rowsByCacheKey.get(cacheKey);
+            if (!group) {
+              group = [];
+              rowsByCacheKey.set(cacheKey, group);
+            }
+            group.push(rows[i]);
+            if (primeRows) {
+              primeRows.loader.prime(primeRows.keyOf(rows[i]), rows[i]);
+            }
+          }
+          let values: Array<Array<V>> = [];
+          for (let i = 0; i < keys.length; i++) {
+            values.push(rowsByCacheKey.get(cacheKeyFn(keys[i])) || []);
+          }
+          return values;
+        }),
+      loaderOptions
+    );
+  }
 }
 
 // Private: Enqueue a Job to be executed after all "PromiseJobs" Jobs.
@@ -291,6 +1076,11 @@ let enqueuePostPromiseJob =
 // Private: cached resolved Promise instance
 let resolvedPromise: Promise<void>;
 
+// Private: the loaders with batches not dispatched yet, for flushAll(). A
+// loader is only held here until its batches are dispatched, or it is disposed
+// of.
+let loadersWithPendingBatches: Set<DataLoader<any, any, any>> = new Set();
+
 // Private: Either returns the current batch, or creates and schedules a
 // dispatch of a new batch for the given loader.
 
@@ -316,11 +1106,23 @@ function getCurrentBatch<K, V>(loader: DataLoader<K, V, any>): Batch<K, V> {
     return existingBatch;
   }
 
+  // A full windowed batch is sent now rather than when its window closes.
+  if (existingBatch !== null && loader._batchWindow) {
+    flushBatchWindow(loader, existingBatch);
+  }
+
   // Otherwise, create a new batch for this loader.
-  let newBatch = { hasDispatched: false, keys: [], callbacks: [] };
+  let newBatch: Batch<K, V> = {
+    id: ++loader._batchCount,
+    hasDispatched: false,
+    keys: [],
+    callbacks: [],
+  };
 
   // Store it on the loader so it may be reused.
   loader._batch = newBatch;
+  loader._pendingBatches.push(newBatch);
+  loadersWithPendingBatches.add(loader);
 
   // Then schedule a task to dispatch this batch of requests.
   // 在创建一个新的batch时, 将批处理函数添加到任务队列中
@@ -330,9 +1132,21 @@ function getCurrentBatch<K, V>(loader: DataLoader<K, V, any>): Batch<K, V> {
   //     dispatchBatch(loader, newBatch);
   //   });
   // });
-  loader._batchScheduleFn(() => {
-    dispatchBatch(loader, newBatch);
-  });
+  // A windowed batch instead waits for its window to close, or to fill up,
+  // and a manual one for dispatch().
+  let batchWindow = loader._batchWindow;
+  if (batchWindow) {
+    newBatch.windowTimer = setTimeout(() => {
+      dispatchBatch(loader, newBatch);
+    }, batchWindow.maxWaitMs);
+  } else if (!loader._manual) {
+    loader._batchScheduleFn(() => {
+      dispatchBatch(loader, newBatch);
+    });
+  }
+  if (loader._instrumentation.onBatchScheduled) {
+    loader._instrumentation.onBatchScheduled();
+  }
 
   return newBatch;
 }
@@ -341,8 +1155,11 @@ function dispatchBatch<K, V>(
   loader: DataLoader<K, V, any>,
   batch: Batch<K, V>
 ) {
-  // Mark this batch as having been dispatched.
-  batch.hasDispatched = true;
+  // A windowed batch sent early is not sent again when its window closes.
+  if (batch.hasDispatched) {
+    return;
+  }
+  markDispatched(loader, batch);
 
   // If there's nothing to load, resolve any cache hits and return early.
   if (batch.keys.length === 0) {
@@ -350,64 +1167,940 @@ function dispatchBatch<K, V>(
     return;
   }
 
-  // Call the provided batchLoadFn for this loader with the batch's keys and
-  // with the loader as the `this` context.
-  // 调用实例化时传入的批加载函数
-  let batchPromise = loader._batchLoadFn(batch.keys);
+  // The batch function is given a signal which aborts once every load in this
+  // batch has been aborted by its callers.
+  batch.abortController = createAbortController();
 
-  // Assert the expected response from batchLoadFn
-  if (!batchPromise || typeof batchPromise.then !== "function") {
-    return failedDispatch(
-      loader,
-      batch,
-      new TypeError(
-        "DataLoader must be constructed with a function which accepts " +
-          "Array<key> and returns Promise<Array<value>>, but the function did " +
-          `not return a Promise: ${String(batchPromise)}.`
-      )
-    );
+  if (loader._asyncCacheMap) {
+    loadBatchFromAsyncCache(loader, batch);
+  } else {
+    loadBatch(loader, batch, 1);
   }
+}
 
-  // Await the resolution of the call to batchLoadFn.
-  batchPromise
-    .then((values) => {
-      // Assert the expected resolution from batchLoadFn.
-      if (!isArrayLike(values)) {
-        throw new TypeError(
-          "DataLoader must be constructed with a function which accepts " +
-            "Array<key> and returns Promise<Array<value>>, but the function did " +
-            `not return a Promise of an Array: ${String(values)}.`
-        );
-      }
-      if (values.length !== batch.keys.length) {
-        throw new TypeError(
-          "DataLoader must be constructed with a function which accepts " +
-            "Array<key> and returns Promise<Array<value>>, but the function did " +
-            "not return a Promise of an Array of the same length as the Array " +
-            "of keys." +
-            `\n\nKeys:\n${String(batch.keys)}` +
-            `\n\nValues:\n${String(values)}`
-        );
-      }
+// Private: marks a batch as having been dispatched, so that it is neither
+// dispatched again nor given more keys.
+function markDispatched(
+  loader: DataLoader<any, any, any>,
+  batch: Batch<any, any>
+) {
+  if (batch.windowTimer) {
+    clearTimeout(batch.windowTimer);
+    batch.windowTimer = null;
+  }
+  batch.hasDispatched = true;
+  let pendingBatches = loader._pendingBatches;
+  pendingBatches.splice(pendingBatches.indexOf(batch), 1);
+  if (pendingBatches.length === 0) {
+    loadersWithPendingBatches.delete(loader);
+  }
+}
 
-      // Resolve all cache hits in the same micro-task as freshly loaded values.
-      resolveCacheHits(batch);
-  
-      // Step through values, resolving or rejecting each Promise in the batch.
-      for (let i = 0; i < batch.callbacks.length; i++) {
-        // 使用加载值来resolve掉load的promise
-        let value = values[i];
-        if (value instanceof Error) {
-          batch.callbacks[i].reject(value);
+// Private: resolves the keys of a batch found in the async cache, and loads
+// the rest with the batch function, as one smaller batch.
+function loadBatchFromAsyncCache<K, V>(
+  loader: DataLoader<K, V, any>,
+  batch: Batch<K, V>
+) {
+  let asyncCacheMap = loader._asyncCacheMap as AsyncCacheMap<any, V>;
+  let lookups: Array<Promise<V | void>> = [];
+  for (let i = 0; i < batch.keys.length; i++) {
+    let cacheKey = loader._cacheKeyFn(batch.keys[i]);
+    lookups.push(
+      callAsyncCacheMap(loader, "get", () => asyncCacheMap.get(cacheKey))
+    );
+  }
+
+  Promise.all(lookups).then((cachedValues) => {
+    let missBatch: Batch<K, V> | null = null;
+    for (let i = 0; i < batch.keys.length; i++) {
+      let cachedValue = cachedValues[i];
+      if (cachedValue === undefined) {
+        missBatch = moveToFollowUpBatch(batch, i, missBatch);
+      } else {
+        if (loader._instrumentation.onCacheHit) {
+          loader._instrumentation.onCacheHit(batch.keys[i]);
+        }
+        batch.callbacks[i].resolve(cachedValue as V);
+      }
+    }
+    resolveCacheHits(batch);
+    if (missBatch) {
+      loadBatch(loader, missBatch, 1);
+    }
+  });
+}
+
+// Private: stores the values loaded by the batch function in the async cache.
+function storeInAsyncCache<K, V>(
+  loader: DataLoader<K, V, any>,
+  keys: ReadonlyArray<K>,
+  values: ReadonlyArray<V | Error>
+) {
+  let asyncCacheMap = loader._asyncCacheMap as AsyncCacheMap<any, V>;
+  for (let i = 0; i < keys.length; i++) {
+    let value = values[i];
+    if (!(value instanceof Error)) {
+      let cacheKey = loader._cacheKeyFn(keys[i]);
+      callAsyncCacheMap(loader, "set", () =>
+        asyncCacheMap.set(cacheKey, value as V)
+      );
+    }
+  }
+}
+
+// Private: calls a method of the async cache, turning a failure into a logged
+// warning and an undefined result.
+function callAsyncCacheMap<T>(
+  loader: DataLoader<any, any, any>,
+  method: string,
+  fn: () => Promise<T>
+): Promise<T | void> {
+  return Promise.resolve()
+    .then(fn)
+    .catch((error) => {
+      if (loader._logger) {
+        loader._logger.warn(
+          `DataLoader asyncCacheMap.${method} failed.`,
+          error
+        );
+      }
+      return undefined;
+    });
+}
+
+// Private: moves the load at `index` of a dispatched batch into a follow-up
+// batch, created if `followUpBatch` is null, and returns the follow-up batch.
+// Aborts of the load then count towards the follow-up batch.
+function moveToFollowUpBatch<K, V>(
+  batch: Batch<K, V>,
+  index: number,
+  followUpBatch: Batch<K, V> | null
+): Batch<K, V> {
+  let target: Batch<K, V> = followUpBatch || {
+    id: batch.id,
+    hasDispatched: true,
+    keys: [],
+    callbacks: [],
+    abandoned: 0,
+    abortController: createAbortController(),
+    callerSpans: batch.callerSpans,
+  };
+  let pendingLoad = batch.callbacks[index];
+  target.keys.push(batch.keys[index]);
+  target.callbacks.push(pendingLoad);
+  pendingLoad.batch = target;
+  if (pendingLoad.waiters === 0) {
+    target.abandoned!++;
+  }
+  return target;
+}
+
+// Private: produce the Promise to cache for a primed value. A rejected promise
+// is cached if the value is an Error, in order to match the behavior of
+// load(key).
+function primedPromise<V>(value: V | Error): Promise<V> {
+  if (value instanceof Error) {
+    let promise = Promise.reject(value);
+    // Since this is a case where an Error is intentionally being primed
+    // for a given key, we want to disable unhandled promise rejection.
+    promise.catch(() => {});
+    return promise;
+  }
+  return Promise.resolve(value);
+}
+
+// Private: caches `fn` applied to the value of `previous`, a cached Promise
+// which has resolved, for update().
+function updateCachedValue<V, C>(
+  loader: DataLoader<any, V, C>,
+  cacheKey: C,
+  previous: Promise<V>,
+  fn: (value: V) => V
+) {
+  let promise = previous.then(fn);
+  promise.then(
+    (value) => writeThrough(loader, cacheKey, value),
+    () => {}
+  );
+  (loader._cacheMap as CacheMap<C, Promise<V>>).set(cacheKey, promise);
+  trackSettled(loader, cacheKey, promise);
+}
+
+// Private: writes a value set on the loader through to the async cache.
+function writeThrough<V>(
+  loader: DataLoader<any, V, any>,
+  cacheKey: unknown,
+  value: V
+) {
+  let asyncCacheMap = loader._asyncCacheMap;
+  if (asyncCacheMap) {
+    callAsyncCacheMap(loader, "set", () => asyncCacheMap!.set(cacheKey, value));
+  }
+}
+
+// Private: calls `fn` with each key and value of the given cache entries.
+function forEachEntry<K, V>(
+  loader: DataLoader<K, V, any>,
+  entries: CacheEntries<K, V>,
+  method: string,
+  fn: (key: K, value: V | Error) => void
+) {
+  if (isMapLike(entries)) {
+    (entries as ReadonlyMap<K, V | Error>).forEach((value, key) => {
+      fn(key, value);
+    });
+    return;
+  }
+  if (!isArrayLike(entries)) {
+    throw new TypeError(
+      `The loader.${method}() function must be called with a Map or an ` +
+        `Array but got: ${entries}.`
+    );
+  }
+  let keyOf = loader._keyOf;
+  let list = entries as ReadonlyArray<any>;
+  for (let i = 0; i < list.length; i++) {
+    if (keyOf) {
+      fn(keyOf(list[i]), list[i]);
+    } else {
+      fn(list[i][0], list[i][1]);
+    }
+  }
+}
+
+// Private: adds a key to a batch, returning the Promise settled by its load.
+function enqueueKey<K, V>(
+  loader: DataLoader<K, V, any>,
+  batch: Batch<K, V>,
+  key: K
+): Promise<V> {
+  batch.keys.push(key);
+  // 每次调用的key会被记录
+  // console.log(key);
+  let resolve: (value: V) => void;
+  let reject: (error: Error) => void;
+  const promise: Promise<V> = new Promise((resolveLoad, rejectLoad) => {
+    resolve = resolveLoad;
+    reject = rejectLoad;
+  });
+  // 这就是为啥key和callback要对应的原因?
+  let pendingLoad: PendingLoad<K, V> = {
+    resolve: resolve!,
+    reject: reject!,
+    batch,
+    waiters: 1,
+    promise,
+  };
+  batch.callbacks.push(pendingLoad);
+  loader._pendingLoads.set(promise, pendingLoad);
+  if (loader._tracer) {
+    linkCallerSpan(loader._tracer, batch);
+  }
+  if (loader._batchWindow) {
+    checkBatchWindow(loader, batch);
+  }
+  return promise;
+}
+
+// Private: the value of each cached Promise which has settled with one, and
+// when, for `staleAfterMs` and clearWhere(). It is shared by every loader,
+// since cached Promises may be too, e.g. through a TieredDataLoaderFactory.
+let settledPromises: WeakMap<
+  Promise<any>,
+  { value: any; settledAt: number }
+> = new WeakMap();
+
+// Private: records the value of a cached Promise once it settles, and tags it
+// with the `tagsOf` option, if it is still cached by then.
+function trackSettled<V, C>(
+  loader: DataLoader<any, V, C>,
+  cacheKey: C,
+  promise: Promise<V>
+) {
+  promise.then(
+    (value) => {
+      settledPromises.set(promise, { value, settledAt: Date.now() });
+      let cacheMap = loader._cacheMap;
+      if (loader._tagsOf && cacheMap && cacheMap.get(cacheKey) === promise) {
+        tagCacheKey(loader, cacheKey, loader._tagsOf(value));
+      }
+    },
+    () => {}
+  );
+}
+
+// Private: indexes a cache key under each of the given tags.
+function tagCacheKey<C>(
+  loader: DataLoader<any, any, C>,
+  cacheKey: C,
+  tags: ReadonlyArray<string>
+) {
+  let tagsOfKey = loader._tagsByCacheKey.get(cacheKey);
+  if (!tagsOfKey) {
+    if (loader._tagsByCacheKey.size >= loader._tagIndexPruneAt) {
+      pruneTagIndex(loader);
+    }
+    tagsOfKey = new Set();
+    loader._tagsByCacheKey.set(cacheKey, tagsOfKey);
+  }
+  for (let i = 0; i < tags.length; i++) {
+    let cacheKeys = loader._cacheKeysByTag.get(tags[i]);
+    if (!cacheKeys) {
+      cacheKeys = new Set();
+      loader._cacheKeysByTag.set(tags[i], cacheKeys);
+    }
+    cacheKeys.add(cacheKey);
+    tagsOfKey.add(tags[i]);
+  }
+}
+
+// Private: removes a cache key from the caches and from the tag index.
+function clearCacheKey<C>(loader: DataLoader<any, any, C>, cacheKey: C) {
+  let cacheMap = loader._cacheMap;
+  if (cacheMap) {
+    cacheMap.delete(cacheKey);
+  }
+  let asyncCacheMap = loader._asyncCacheMap;
+  if (asyncCacheMap) {
+    callAsyncCacheMap(loader, "delete", () => asyncCacheMap!.delete(cacheKey));
+  }
+  untagCacheKey(loader, cacheKey);
+}
+
+// Private: removes a cache key from the tag index.
+function untagCacheKey<C>(loader: DataLoader<any, any, C>, cacheKey: C) {
+  let tagsOfKey = loader._tagsByCacheKey.get(cacheKey);
+  if (tagsOfKey) {
+    loader._tagsByCacheKey.delete(cacheKey);
+    tagsOfKey.forEach((tag) => {
+      let cacheKeys = loader._cacheKeysByTag.get(tag);
+      if (cacheKeys) {
+        cacheKeys.delete(cacheKey);
+        if (cacheKeys.size === 0) {
+          loader._cacheKeysByTag.delete(tag);
+        }
+      }
+    });
+  }
+}
+
+// Private: the size from which the tag index is pruned of evicted keys.
+const MIN_TAG_INDEX_PRUNE_AT = 64;
+
+// Private: drops the tags of keys which a bounded cache has evicted by itself,
+// so that the tag index does not outgrow the cache. It runs each time the
+// index has doubled since it was last pruned, which keeps its cost amortized.
+function pruneTagIndex<C>(loader: DataLoader<any, any, C>) {
+  let cacheMap = loader._cacheMap;
+  let evictedCacheKeys: Array<C> = [];
+  if (
+    cacheMap &&
+    typeof (cacheMap as IterableCacheMap<C, any>).forEach === "function"
+  ) {
+    // Iterating leaves the recency of an LRU cache untouched, unlike get().
+    let cachedKeys = new Set<C>();
+    (cacheMap as IterableCacheMap<C, any>).forEach((_value, cacheKey) => {
+      cachedKeys.add(cacheKey);
+    });
+    loader._tagsByCacheKey.forEach((_tags, cacheKey) => {
+      if (!cachedKeys.has(cacheKey)) {
+        evictedCacheKeys.push(cacheKey);
+      }
+    });
+  } else if (cacheMap) {
+    loader._tagsByCacheKey.forEach((_tags, cacheKey) => {
+      if (cacheMap!.get(cacheKey) === undefined) {
+        evictedCacheKeys.push(cacheKey);
+      }
+    });
+  }
+  for (let i = 0; i < evictedCacheKeys.length; i++) {
+    untagCacheKey(loader, evictedCacheKeys[i]);
+  }
+  loader._tagIndexPruneAt = Math.max(
+    MIN_TAG_INDEX_PRUNE_AT,
+    loader._tagsByCacheKey.size * 2
+  );
+}
+
+// Private: whether a cached Promise holds a value older than `staleAfterMs`.
+// A Promise still pending, or whose age is unknown, is not stale.
+function isStale(
+  loader: DataLoader<any, any, any>,
+  promise: Promise<any>
+): boolean {
+  if (loader._staleAfterMs === Infinity) {
+    return false;
+  }
+  let settled = settledPromises.get(promise);
+  return (
+    settled !== undefined &&
+    Date.now() - settled.settledAt >= loader._staleAfterMs
+  );
+}
+
+// Private: sends a windowed batch once it holds enough keys.
+function checkBatchWindow(
+  loader: DataLoader<any, any, any>,
+  batch: Batch<any, any>
+) {
+  let batchWindow = loader._batchWindow as Required<BatchWindow>;
+  if (
+    batch.keys.length >= batchWindow.minBatchSize ||
+    batch.keys.length >= loader._maxBatchSize
+  ) {
+    flushBatchWindow(loader, batch);
+  }
+}
+
+// Private: sends a windowed batch which holds only cache hits after the
+// current tick, like an ordinary batch, rather than when its window closes.
+function checkCacheHitWindow(
+  loader: DataLoader<any, any, any>,
+  batch: Batch<any, any>
+) {
+  enqueuePostPromiseJob(() => {
+    if (batch.keys.length === 0) {
+      dispatchBatch(loader, batch);
+    }
+  });
+}
+
+// Private: dispatches a windowed batch without waiting for its window to
+// close. The dispatch still happens after the current tick, like an ordinary
+// batch, so that loads made alongside the one filling it are included.
+function flushBatchWindow(
+  loader: DataLoader<any, any, any>,
+  batch: Batch<any, any>
+) {
+  if (batch.hasDispatched || !batch.windowTimer) {
+    return;
+  }
+  clearTimeout(batch.windowTimer);
+  batch.windowTimer = null;
+  enqueuePostPromiseJob(() => {
+    dispatchBatch(loader, batch);
+  });
+}
+
+// Private: calls the batch function with the keys of a dispatched batch, and
+// settles its loads. `attempt` counts the times these keys have been loaded,
+// and decides with the retry policy whether a failure is retried.
+function loadBatch<K, V>(
+  loader: DataLoader<K, V, any>,
+  batch: Batch<K, V>,
+  attempt: number
+) {
+  // Wait for a slot if too many batches are already in flight.
+  if (loader._inFlightBatches >= loader._maxConcurrentBatches) {
+    loader._batchQueue.push(() => {
+      loadBatch(loader, batch, attempt);
+    });
+    return;
+  }
+  loader._inFlightBatches++;
+
+  let abortController = batch.abortController;
+  let instrumentation = loader._instrumentation;
+  let logger = loader._logger;
+
+  if (instrumentation.onBatchDispatch) {
+    instrumentation.onBatchDispatch(batch.keys);
+  }
+  if (logger) {
+    logger.debug(
+      `DataLoader dispatching ${batch.keys.length} key(s), attempt ${attempt}.`
+    );
+  }
+  let span = loader._tracer && startBatchSpan(loader, batch, attempt);
+  let startedAt = Date.now();
+  let onFailed = (error: Error) => {
+    let durationMs = Date.now() - startedAt;
+    if (span) {
+      span.setAttribute("dataloader.batch.failed", true);
+      span.setAttribute("dataloader.batch.error", String(error));
+      span.end();
+    }
+    if (instrumentation.onBatchFailed) {
+      instrumentation.onBatchFailed(error, durationMs);
+    }
+    if (logger) {
+      logger.error(`DataLoader batch failed after ${durationMs}ms.`, error);
+    }
+  };
+  let onResolved = (values: ReadonlyArray<V | Error>) => {
+    let errors: Array<Error> = [];
+    for (let i = 0; i < values.length; i++) {
+      let value = values[i];
+      if (value instanceof Error) {
+        errors.push(value);
+      }
+    }
+    let durationMs = Date.now() - startedAt;
+    if (instrumentation.onBatchResolved) {
+      instrumentation.onBatchResolved(durationMs, errors);
+    }
+    if (span) {
+      span.setAttribute("dataloader.batch.failed", false);
+      span.setAttribute("dataloader.batch.errors", errors.length);
+      span.end();
+    }
+    if (logger) {
+      logger.debug(
+        `DataLoader resolved ${values.length} key(s) in ${durationMs}ms ` +
+          `with ${errors.length} error(s).`
+      );
+    }
+  };
+
+  // Call the provided batchLoadFn for this loader with the batch's keys and
+  // with the loader as the `this` context.
+  // 调用实例化时传入的批加载函数
+  let batchPromise: ReturnType<BatchLoadFn<K, V>>;
+  try {
+    batchPromise = loader._batchLoadFn(batch.keys, {
+      signal: abortController ? abortController.signal : null,
+    });
+  } catch (error) {
+    // A batch function which throws, rather than rejecting, fails the batch
+    // all the same, and must give up its slot.
+    releaseBatchSlot(loader);
+    onFailed(error);
+    return failedDispatch(loader, batch, error);
+  }
+
+  // A stream settles each load as its entry arrives, and frees the slot once
+  // it ends.
+  if (isAsyncIterable(batchPromise)) {
+    loadBatchFromStream(loader, batch, batchPromise).then(
+      (values) => {
+        releaseBatchSlot(loader);
+        onResolved(values);
+        if (loader._asyncCacheMap) {
+          storeInAsyncCache(loader, batch.keys, values);
+        }
+      },
+      (error) => {
+        releaseBatchSlot(loader);
+        onFailed(error);
+      }
+    );
+    return;
+  }
+
+  // Assert the expected response from batchLoadFn
+  if (!batchPromise || typeof batchPromise.then !== "function") {
+    let error = new BatchFunctionContractError(
+      "DataLoader must be constructed with a function which accepts " +
+        "Array<key> and returns Promise<Array<value>>, but the function did " +
+        `not return a Promise: ${describeValue(batchPromise)}.`,
+      errorDetails(loader, batch, { value: batchPromise })
+    );
+    onFailed(error);
+    releaseBatchSlot(loader);
+    return failedDispatch(loader, batch, error);
+  }
+
+  // A batch function which does not settle in time fails the batch, and is
+  // told to stop through its signal.
+  let timedOut = false;
+  let timer =
+    loader._batchTimeoutMs === Infinity
+      ? null
+      : setTimeout(() => {
+          timedOut = true;
+          let error = batchTimeoutError(loader, batch);
+          releaseBatchSlot(loader);
+          onFailed(error);
+          failedDispatch(loader, batch, error);
+          if (abortController) {
+            abortController.abort();
+          }
+        }, loader._batchTimeoutMs);
+
+  // Free the slot as soon as the batch function settles, before its values
+  // are handed out.
+  let onSettled = () => {
+    if (!timedOut) {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      releaseBatchSlot(loader);
+    }
+  };
+  batchPromise.then(onSettled, onSettled);
+
+  // Await the resolution of the call to batchLoadFn.
+  batchPromise
+    .then(
+      (result) => {
+        // Results arriving after the timeout are discarded.
+        if (timedOut) {
+          return;
+        }
+        // Assert the expected resolution from batchLoadFn.
+        if (!isArrayLike(result) && !isMapLike(result)) {
+          throw new BatchFunctionContractError(
+            "DataLoader must be constructed with a function which accepts " +
+              "Array<key> and returns Promise<Array<value>>, but the function did " +
+              "not return a Promise of an Array or a Map: " +
+              `${describeValue(result)}.`,
+            errorDetails(loader, batch, { value: result })
+          );
+        }
+        // A Map, or an Array with `keyOf`, is lined up with the keys first.
+        let values =
+          isMapLike(result) || loader._keyOf
+            ? alignValues(loader, batch, result)
+            : (result as Readonly<Array<V | Error>>);
+        if (values.length !== batch.keys.length) {
+          throw new BatchLengthMismatchError(
+            errorDetails(loader, batch, { value: values })
+          );
+        }
+
+        onResolved(values);
+
+        // Resolve all cache hits in the same micro-task as freshly loaded values.
+        resolveCacheHits(batch);
+
+        // Keys which resolved to a retryable Error are loaded again together.
+        let retryBatch: Batch<K, V> | null = null;
+        let retryError: Error | null = null;
+
+        // Step through values, resolving or rejecting each Promise in the batch.
+        for (let i = 0; i < batch.callbacks.length; i++) {
+          // 使用加载值来resolve掉load的promise
+          let value = values[i];
+          if (value instanceof Error) {
+            if (shouldRetry(loader, value, attempt)) {
+              retryError = retryError || value;
+              retryBatch = moveToFollowUpBatch(batch, i, retryBatch);
+            } else {
+              batch.callbacks[i].reject(value);
+            }
+          } else {
+            batch.callbacks[i].resolve(value);
+          }
+        }
+
+        if (loader._asyncCacheMap) {
+          storeInAsyncCache(loader, batch.keys, values);
+        }
+        if (retryBatch) {
+          scheduleRetry(loader, retryBatch, attempt, retryError as Error);
+        }
+      },
+      (error) => {
+        if (timedOut) {
+          return;
+        }
+        onFailed(error);
+        if (shouldRetry(loader, error, attempt)) {
+          scheduleRetry(loader, batch, attempt, error);
         } else {
-          console.log(`${i} ${JSON.stringify(value)}`);
-          batch.callbacks[i].resolve(value);
+          failedDispatch(loader, batch, error);
         }
       }
-    })
+    )
     .catch((error) => {
+      onFailed(error);
+      failedDispatch(loader, batch, error);
+    });
+}
+
+// Private: settles the loads of a batch from the entries of a stream as they
+// arrive. Resolves with the values of every key once the stream ends, or
+// rejects if it throws, after rejecting the keys it had not yet settled.
+function loadBatchFromStream<K, V>(
+  loader: DataLoader<K, V, any>,
+  batch: Batch<K, V>,
+  stream: BatchLoadStream<K, V>
+): Promise<Array<V | Error>> {
+  let keys = batch.keys;
+  let byIndex = loader._streamEntries === "index";
+  // 同一个 cache key 在关闭缓存时可能在 batch 中出现多次
+  let indexesByCacheKey = new Map<any, Array<number>>();
+  if (!byIndex) {
+    for (let i = 0; i < keys.length; i++) {
+      let cacheKey = loader._cacheKeyFn(keys[i]);
+      let indexes = indexesByCacheKey.get(cacheKey);
+      if (!indexes) {
+        indexes = [];
+        indexesByCacheKey.set(cacheKey, indexes);
+      }
+      indexes.push(i);
+    }
+  }
+  let values: Array<V | Error> = new Array(keys.length);
+  let settled: Array<boolean> = new Array(keys.length);
+  let remaining = keys.length;
+  let signal = batch.abortController ? batch.abortController.signal : null;
+  let iterator = stream[Symbol.asyncIterator]();
+
+  let settle = (index: number, value: V | Error) => {
+    if (settled[index]) {
+      return;
+    }
+    settled[index] = true;
+    remaining--;
+    values[index] = value;
+    if (value instanceof Error) {
+      batch.callbacks[index].reject(value);
+    } else {
+      batch.callbacks[index].resolve(value);
+    }
+  };
+
+  let close = () => {
+    if (typeof iterator.return === "function") {
+      iterator.return().then(undefined, () => {});
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    let done = false;
+    // Stop reading once every load of the batch has been aborted.
+    let onAbort = () => {
+      if (!done) {
+        close();
+        finish();
+      }
+    };
+    if (signal) {
+      addAbortListener(signal, onAbort);
+    }
+    // Keys still unsettled when `batchTimeoutMs` passes are failed.
+    let timer =
+      loader._batchTimeoutMs === Infinity
+        ? null
+        : setTimeout(() => {
+            close();
+            fail(batchTimeoutError(loader, batch));
+            if (batch.abortController) {
+              batch.abortController.abort();
+            }
+          }, loader._batchTimeoutMs);
+    let finish = () => {
+      done = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      if (signal) {
+        removeAbortListener(signal, onAbort);
+      }
+      resolveCacheHits(batch);
+      for (let i = 0; i < keys.length; i++) {
+        if (!settled[i]) {
+          settle(i, new KeyNotFoundError(keys[i], errorDetails(loader, batch)));
+        }
+      }
+      resolve(values);
+    };
+    let fail = (cause: Error) => {
+      if (done) {
+        return;
+      }
+      let error = toBatchError(loader, batch, cause);
+      done = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      if (signal) {
+        removeAbortListener(signal, onAbort);
+      }
+      resolveCacheHits(batch);
+      for (let i = 0; i < keys.length; i++) {
+        if (!settled[i]) {
+          clearFailedLoad(loader, batch, i);
+          batch.callbacks[i].reject(error);
+        }
+      }
+      reject(error);
+    };
+    let next = () => {
+      iterator
+        .next()
+        .then((step) => {
+          if (done) {
+            return;
+          }
+          if (step.done) {
+            return finish();
+          }
+          let entry = step.value;
+          if (!isArrayLike(entry) || entry.length !== 2) {
+            throw new BatchFunctionContractError(
+              "DataLoader batch function returned a stream which must yield " +
+                `[key, value] entries, but it yielded: ${describeValue(
+                  entry
+                )}.`,
+              errorDetails(loader, batch, { value: entry })
+            );
+          }
+          if (byIndex) {
+            let index = entry[0];
+            if (
+              typeof index === "number" &&
+              index >= 0 &&
+              index < keys.length
+            ) {
+              settle(index, entry[1]);
+            }
+          } else {
+            let indexes = indexesByCacheKey.get(
+              loader._cacheKeyFn(entry[0] as K)
+            );
+            if (indexes) {
+              for (let i = 0; i < indexes.length; i++) {
+                settle(indexes[i], entry[1]);
+              }
+            }
+          }
+          // Cache hits are resolved along with the first loaded value.
+          resolveCacheHits(batch);
+          // Stop reading once every key is settled.
+          if (remaining === 0) {
+            close();
+            return finish();
+          }
+          next();
+        })
+        .catch(fail);
+    };
+    next();
+  });
+}
+
+// Private: starts the span of one call of the batch function, linked to the
+// spans of the loads which added keys to the batch.
+function startBatchSpan(
+  loader: DataLoader<any, any, any>,
+  batch: Batch<any, any>,
+  attempt: number
+): Span {
+  let span = (loader._tracer as Tracer).startSpan("DataLoader.dispatchBatch", {
+    links: batch.callerSpans || [],
+  });
+  span.setAttribute("dataloader.name", loader._name);
+  span.setAttribute("dataloader.batch.size", batch.keys.length);
+  span.setAttribute(
+    "dataloader.batch.cache_hits",
+    batch.cacheHits ? batch.cacheHits.length : 0
+  );
+  span.setAttribute("dataloader.batch.attempt", attempt);
+  return span;
+}
+
+// Private: records the active span of a load adding a key or a cache hit to
+// the batch.
+function linkCallerSpan(tracer: Tracer, batch: Batch<any, any>) {
+  let span = tracer.getActiveSpan && tracer.getActiveSpan();
+  if (span) {
+    let callerSpans = batch.callerSpans || (batch.callerSpans = []);
+    if (callerSpans.indexOf(span) === -1) {
+      callerSpans.push(span);
+    }
+  }
+}
+
+// Private: frees the slot of a settled batch, and starts the next queued one.
+function releaseBatchSlot(loader: DataLoader<any, any, any>) {
+  loader._inFlightBatches--;
+  let next = loader._batchQueue.shift();
+  if (next) {
+    next();
+  }
+}
+
+// Private: whether a failure on the given attempt should be retried.
+function shouldRetry(
+  loader: DataLoader<any, any, any>,
+  error: Error,
+  attempt: number
+): boolean {
+  let retry = loader._retry;
+  return (
+    retry !== null &&
+    attempt < retry.maxAttempts &&
+    !(error instanceof KeyNotFoundError) &&
+    retry.isRetryable(error)
+  );
+}
+
+// Private: loads the keys of a batch again after the backoff delay. A batch
+// whose loads have all been aborted in the meantime is failed instead.
+function scheduleRetry<K, V>(
+  loader: DataLoader<K, V, any>,
+  batch: Batch<K, V>,
+  attempt: number,
+  error: Error
+) {
+  let retry = loader._retry as RetryPolicy;
+  let delay = Math.min(
+    retry.maxDelayMs,
+    retry.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+  if (retry.jitter) {
+    delay = Math.random() * delay;
+  }
+  if (loader._logger) {
+    loader._logger.warn(
+      `DataLoader retrying ${batch.keys.length} key(s) in ${Math.round(
+        delay
+      )}ms after attempt ${attempt} failed.`,
+      error
+    );
+  }
+  setTimeout(() => {
+    if (batch.abandoned === batch.callbacks.length) {
       failedDispatch(loader, batch, error);
+    } else {
+      loadBatch(loader, batch, attempt + 1);
+    }
+  }, delay);
+}
+
+// Private: produce an Array of values in the order of the batch keys, matching
+// keys by their cache key. Keys without a value are given a KeyNotFoundError.
+function alignValues<K, V, C>(
+  loader: DataLoader<K, V, C>,
+  batch: Batch<K, V>,
+  result: BatchLoadResult<K, V>
+): Array<V | Error> {
+  let valuesByCacheKey = new Map<C, V | Error>();
+  if (isMapLike(result)) {
+    (result as ReadonlyMap<K, V | Error>).forEach((value, key) => {
+      valuesByCacheKey.set(loader._cacheKeyFn(key), value);
     });
+  } else {
+    let keyOf = loader._keyOf as (value: V) => K;
+    let list = result as Readonly<Array<V | Error>>;
+    for (let i = 0; i < list.length; i++) {
+      let value = list[i];
+      if (value instanceof Error) {
+        throw new BatchFunctionContractError(
+          "DataLoader was constructed with a keyOf function, so the batch " +
+            "function must not return Errors in its Array, since they cannot " +
+            `be matched to a key: ${value.message}`,
+          errorDetails(loader, batch, { value })
+        );
+      }
+      valuesByCacheKey.set(loader._cacheKeyFn(keyOf(value)), value);
+    }
+  }
+
+  let values: Array<V | Error> = [];
+  for (let i = 0; i < batch.keys.length; i++) {
+    let cacheKey = loader._cacheKeyFn(batch.keys[i]);
+    values.push(
+      valuesByCacheKey.has(cacheKey)
+        ? (valuesByCacheKey.get(cacheKey) as V | Error)
+        : new KeyNotFoundError(batch.keys[i], errorDetails(loader, batch))
+    );
+  }
+  return values;
 }
 
 // Private: do not cache individual loads if the entire batch dispatch fails,
@@ -415,16 +2108,170 @@ function dispatchBatch<K, V>(
 function failedDispatch<K, V>(
   loader: DataLoader<K, V, any>,
   batch: Batch<K, V>,
-  error: Error
+  cause: Error
 ) {
+  let error = toBatchError(loader, batch, cause);
   // Cache hits are resolved, even though the batch failed.
   resolveCacheHits(batch);
   for (let i = 0; i < batch.keys.length; i++) {
-    loader.clear(batch.keys[i]);
+    clearFailedLoad(loader, batch, i);
     batch.callbacks[i].reject(error);
   }
 }
 
+// Private: removes the load at `index` of a failed batch from the cache. A
+// key cached with another Promise, e.g. the value a refresh was reloading, or
+// a key cleared and loaded again since, is left alone.
+function clearFailedLoad<K, V>(
+  loader: DataLoader<K, V, any>,
+  batch: Batch<K, V>,
+  index: number
+) {
+  let cacheMap = loader._cacheMap;
+  let cacheKey = loader._cacheKeyFn(batch.keys[index]);
+  if (!cacheMap || cacheMap.get(cacheKey) === batch.callbacks[index].promise) {
+    clearCacheKey(loader, cacheKey);
+  }
+}
+
+// Private: the fields of an error concerning a batch.
+function errorDetails<K>(
+  loader: DataLoader<K, any, any>,
+  batch: Batch<K, any>,
+  extra?: { value?: unknown; cause?: unknown }
+): DataLoaderErrorDetails<K> {
+  return {
+    loaderName: loader._name,
+    batchId: batch.id,
+    keys: batch.errorKeys || (batch.errorKeys = batch.keys.slice()),
+    value: extra && extra.value,
+    cause: extra && extra.cause,
+  };
+}
+
+// Private: the error to reject the loads of a failed batch with. An error of
+// the batch function itself is wrapped in a BatchFailedError, so that it can be
+// told apart from a contract violation.
+function toBatchError<K>(
+  loader: DataLoader<K, any, any>,
+  batch: Batch<K, any>,
+  cause: Error
+): Error {
+  if (cause instanceof DataLoaderError) {
+    return cause;
+  }
+  return new BatchFailedError(errorDetails(loader, batch, { cause }));
+}
+
+// Private: the error of a batch whose batch function exceeded `batchTimeoutMs`.
+function batchTimeoutError<K>(
+  loader: DataLoader<K, any, any>,
+  batch: Batch<K, any>
+): BatchTimeoutError<K> {
+  return new BatchTimeoutError(
+    loader._batchTimeoutMs,
+    errorDetails(loader, batch)
+  );
+}
+
+// Private: an AbortController for the batch function's signal, if available.
+function createAbortController(): AbortController | null {
+  return typeof AbortController === "function" ? new AbortController() : null;
+}
+
+// Private: wraps the Promise of a load so that it rejects once `signal` is
+// aborted. `sharedPromise` is the Promise held by the cache and the batch,
+// which for a cache hit differs from the Promise returned to the caller.
+function abortableLoad<K, V>(
+  loader: DataLoader<K, V, any>,
+  key: K,
+  promise: Promise<V>,
+  sharedPromise: Promise<V>,
+  signal: AbortSignal
+): Promise<V> {
+  return new Promise((resolve, reject) => {
+    let onAbort = () => {
+      reject(new AbortError(key));
+      let pendingLoad = loader._pendingLoads.get(sharedPromise);
+      if (pendingLoad) {
+        abandonLoad(loader, key, pendingLoad, sharedPromise);
+      }
+    };
+    addAbortListener(signal, onAbort);
+    promise.then(
+      (value) => {
+        removeAbortListener(signal, onAbort);
+        resolve(value);
+      },
+      (error) => {
+        removeAbortListener(signal, onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Private: called when a load sharing `pendingLoad` has been aborted. Once no
+// load is left waiting, a key which has not been dispatched is withdrawn from
+// its batch and the cache. Its Promise is left pending, as nothing awaits it.
+// If the batch has already been dispatched, the batch function's signal is
+// aborted once every key in it has been abandoned.
+function abandonLoad<K, V>(
+  loader: DataLoader<K, V, any>,
+  key: K,
+  pendingLoad: PendingLoad<K, V>,
+  sharedPromise: Promise<V>
+) {
+  if (--pendingLoad.waiters > 0) {
+    return;
+  }
+  loader._pendingLoads.delete(sharedPromise);
+
+  let batch = pendingLoad.batch;
+  if (!batch.hasDispatched) {
+    let index = batch.callbacks.indexOf(pendingLoad);
+    batch.keys.splice(index, 1);
+    batch.callbacks.splice(index, 1);
+    let cacheMap = loader._cacheMap;
+    let cacheKey = loader._cacheKeyFn(key);
+    if (cacheMap) {
+      // The key may since have been cleared and loaded again.
+      if (cacheMap.get(cacheKey) === sharedPromise) {
+        cacheMap.delete(cacheKey);
+      }
+    } else if (batch.dedupedLoads) {
+      batch.dedupedLoads.delete(cacheKey);
+    }
+    return;
+  }
+
+  batch.abandoned = (batch.abandoned || 0) + 1;
+  if (batch.abandoned === batch.callbacks.length && batch.abortController) {
+    batch.abortController.abort();
+  }
+}
+
+// Private: the AbortSignal declared by @types/node 16 lacks the EventTarget
+// methods, although every runtime which provides AbortSignal implements them.
+type AbortSignalEventTarget = {
+  addEventListener(type: "abort", listener: () => void): void;
+  removeEventListener(type: "abort", listener: () => void): void;
+};
+
+function addAbortListener(signal: AbortSignal, listener: () => void) {
+  (signal as unknown as AbortSignalEventTarget).addEventListener(
+    "abort",
+    listener
+  );
+}
+
+function removeAbortListener(signal: AbortSignal, listener: () => void) {
+  (signal as unknown as AbortSignalEventTarget).removeEventListener(
+    "abort",
+    listener
+  );
+}
+
 // Private: Resolves the Promises for any cache hits in this batch.
 function resolveCacheHits(batch: Batch<any, any>) {
   if (batch.cacheHits) {
@@ -452,6 +2299,23 @@ function getValidMaxBatchSize(options?: Options<any, any, any>): number {
   return maxBatchSize;
 }
 
+// Private: given the DataLoader's options, produce the limit of batches in
+// flight at once.
+function getValidMaxConcurrentBatches(
+  options?: Options<any, any, any>
+): number {
+  let maxConcurrentBatches = options && options.maxConcurrentBatches;
+  if (maxConcurrentBatches === undefined) {
+    return Infinity;
+  }
+  if (typeof maxConcurrentBatches !== "number" || maxConcurrentBatches < 1) {
+    throw new TypeError(
+      `maxConcurrentBatches must be a positive number: ${maxConcurrentBatches}`
+    );
+  }
+  return maxConcurrentBatches;
+}
+
 // Private
 function getValidBatchScheduleFn(
   options?: Options<any, any, any>
@@ -469,6 +2333,59 @@ function getValidBatchScheduleFn(
   return batchScheduleFn;
 }
 
+// Private: given the DataLoader's options, produce whether batches are only
+// dispatched manually.
+function getValidManual(options?: Options<any, any, any>): boolean {
+  let manual = options && options.manual;
+  if (manual === undefined) {
+    return false;
+  }
+  if (typeof manual !== "boolean") {
+    throw new TypeError(`manual must be a boolean: ${manual}`);
+  }
+  if (
+    manual &&
+    (options!.batchScheduleFn !== undefined ||
+      options!.batchWindow !== undefined)
+  ) {
+    throw new TypeError(
+      "manual cannot be used together with batchScheduleFn or batchWindow."
+    );
+  }
+  return manual;
+}
+
+// Private: given the DataLoader's options, produce a batch window, or null if
+// batches are scheduled by `batchScheduleFn`.
+function getValidBatchWindow(
+  options?: Options<any, any, any>
+): Required<BatchWindow> | null {
+  let batchWindow = options && options.batchWindow;
+  if (batchWindow === undefined) {
+    return null;
+  }
+  if (options && options.batchScheduleFn !== undefined) {
+    throw new TypeError(
+      "batchWindow and batchScheduleFn cannot be used together."
+    );
+  }
+  if (typeof batchWindow !== "object" || batchWindow === null) {
+    throw new TypeError(`batchWindow must be an object: ${batchWindow}`);
+  }
+  let { maxWaitMs, minBatchSize = Infinity } = batchWindow;
+  if (typeof maxWaitMs !== "number" || maxWaitMs < 0) {
+    throw new TypeError(
+      `batchWindow.maxWaitMs must be a non-negative number: ${maxWaitMs}`
+    );
+  }
+  if (typeof minBatchSize !== "number" || minBatchSize < 1) {
+    throw new TypeError(
+      `batchWindow.minBatchSize must be a positive number: ${minBatchSize}`
+    );
+  }
+  return { maxWaitMs, minBatchSize };
+}
+
 // 默认不会对key做任何转化
 // Private: given the DataLoader's options, produce a cache key function.
 function getValidCacheKeyFn<K, C>(options?: Options<K, any, C>): (arg: K) => C {
@@ -513,6 +2430,245 @@ function getValidCacheMap<K, V, C>(
   return cacheMap;
 }
 
+// Private: given the DataLoader's options, produce a retry policy, or null if
+// failures are not retried.
+function getValidRetryPolicy(
+  options?: Options<any, any, any>
+): RetryPolicy | null {
+  let retry = options && options.retry;
+  if (retry === undefined) {
+    return null;
+  }
+  if (typeof retry !== "object" || retry === null) {
+    throw new TypeError(`retry must be an object: ${retry}`);
+  }
+  let policy: RetryPolicy = {
+    maxAttempts: retry.maxAttempts === undefined ? 3 : retry.maxAttempts,
+    baseDelayMs: retry.baseDelayMs === undefined ? 100 : retry.baseDelayMs,
+    maxDelayMs: retry.maxDelayMs === undefined ? 5000 : retry.maxDelayMs,
+    jitter: retry.jitter !== false,
+    isRetryable: retry.isRetryable || (() => true),
+  };
+  if (typeof policy.maxAttempts !== "number" || policy.maxAttempts < 1) {
+    throw new TypeError(
+      `retry.maxAttempts must be a positive number: ${policy.maxAttempts}`
+    );
+  }
+  if (typeof policy.baseDelayMs !== "number" || policy.baseDelayMs < 0) {
+    throw new TypeError(
+      `retry.baseDelayMs must be a non-negative number: ${policy.baseDelayMs}`
+    );
+  }
+  if (typeof policy.maxDelayMs !== "number" || policy.maxDelayMs < 0) {
+    throw new TypeError(
+      `retry.maxDelayMs must be a non-negative number: ${policy.maxDelayMs}`
+    );
+  }
+  if (typeof policy.isRetryable !== "function") {
+    throw new TypeError(
+      `retry.isRetryable must be a function: ${policy.isRetryable}`
+    );
+  }
+  return policy;
+}
+
+// Private: given the DataLoader's options, produce the instrumentation hooks.
+function getValidInstrumentation<K>(
+  options?: Options<K, any, any>
+): Instrumentation<K> {
+  let instrumentation = options && options.instrumentation;
+  if (instrumentation === undefined) {
+    return {};
+  }
+  if (typeof instrumentation !== "object" || instrumentation === null) {
+    throw new TypeError(
+      `instrumentation must be an object: ${instrumentation}`
+    );
+  }
+  let hookNames = Object.keys(instrumentation) as Array<
+    keyof Instrumentation<K>
+  >;
+  for (let i = 0; i < hookNames.length; i++) {
+    let hook = instrumentation[hookNames[i]];
+    if (hook !== undefined && typeof hook !== "function") {
+      throw new TypeError(`instrumentation.${hookNames[i]} must be a function`);
+    }
+  }
+  return instrumentation;
+}
+
+// Private: given the DataLoader's options, produce a Logger, or null.
+function getValidLogger(options?: Options<any, any, any>): Logger | null {
+  let logger = options && options.logger;
+  if (logger === undefined) {
+    return null;
+  }
+  let loggerFunctions: Array<keyof Logger> = ["debug", "warn", "error"];
+  let missingFunctions = loggerFunctions.filter(
+    (fnName) => !logger || typeof logger[fnName] !== "function"
+  );
+  if (missingFunctions.length !== 0) {
+    throw new TypeError(
+      "Custom logger missing methods: " + missingFunctions.join(", ")
+    );
+  }
+  return logger;
+}
+
+// Private: given the DataLoader's options, produce a Tracer, or null.
+function getValidTracer(options?: Options<any, any, any>): Tracer | null {
+  let tracer = options && options.tracer;
+  if (tracer === undefined) {
+    return null;
+  }
+  if (
+    typeof tracer !== "object" ||
+    tracer === null ||
+    typeof tracer.startSpan !== "function"
+  ) {
+    throw new TypeError(`tracer must implement startSpan: ${tracer}`);
+  }
+  return tracer;
+}
+
+// Private: given the options of a load, produce its AbortSignal, if any.
+function getValidSignal(options?: LoadOptions): AbortSignal | null {
+  let signal = options && options.signal;
+  if (signal === undefined) {
+    return null;
+  }
+  if (
+    typeof signal !== "object" ||
+    signal === null ||
+    typeof (signal as unknown as AbortSignalEventTarget).addEventListener !==
+      "function"
+  ) {
+    throw new TypeError(`signal must be an AbortSignal: ${signal}`);
+  }
+  return signal;
+}
+
+// Private: given the DataLoader's options, produce an async cache, or null.
+function getValidAsyncCacheMap<K, V, C>(
+  options?: Options<K, V, C>
+): AsyncCacheMap<C, V> | null {
+  let asyncCacheMap = options && options.asyncCacheMap;
+  if (asyncCacheMap === undefined) {
+    return null;
+  }
+  let cacheFunctions: Array<keyof AsyncCacheMap<C, V>> = [
+    "get",
+    "set",
+    "delete",
+  ];
+  let missingFunctions = cacheFunctions.filter(
+    (fnName) => !asyncCacheMap || typeof asyncCacheMap[fnName] !== "function"
+  );
+  if (missingFunctions.length !== 0) {
+    throw new TypeError(
+      "Custom asyncCacheMap missing methods: " + missingFunctions.join(", ")
+    );
+  }
+  return asyncCacheMap;
+}
+
+// Private: given the DataLoader's options, produce the age after which a
+// cached value is refreshed.
+function getValidStaleAfterMs(options?: Options<any, any, any>): number {
+  let staleAfterMs = options && options.staleAfterMs;
+  if (staleAfterMs === undefined) {
+    return Infinity;
+  }
+  if (typeof staleAfterMs !== "number" || staleAfterMs < 0) {
+    throw new TypeError(
+      `staleAfterMs must be a non-negative number: ${staleAfterMs}`
+    );
+  }
+  return staleAfterMs;
+}
+
+// Private: given the DataLoader's options, produce a valid batch timeout.
+function getValidBatchTimeoutMs(options?: Options<any, any, any>): number {
+  let batchTimeoutMs = options && options.batchTimeoutMs;
+  if (batchTimeoutMs === undefined) {
+    return Infinity;
+  }
+  if (typeof batchTimeoutMs !== "number" || !(batchTimeoutMs > 0)) {
+    throw new TypeError(
+      `batchTimeoutMs must be a positive number: ${batchTimeoutMs}`
+    );
+  }
+  return batchTimeoutMs;
+}
+
+// Private: given the DataLoader's options, produce a tagsOf function, or null.
+function getValidTagsOf<V>(
+  options?: Options<any, V, any>
+): ((value: V) => ReadonlyArray<string>) | null {
+  let tagsOf = options && options.tagsOf;
+  if (tagsOf === undefined) {
+    return null;
+  }
+  if (typeof tagsOf !== "function") {
+    throw new TypeError(`tagsOf must be a function: ${tagsOf}`);
+  }
+  return tagsOf;
+}
+
+// Private: given the DataLoader's options, produce a keyOf function, or null
+// if the batch function returns values in the order of the keys.
+function getValidKeyOf<K, V>(
+  options?: Options<K, V, any>
+): ((value: V) => K) | null {
+  let keyOf = options && options.keyOf;
+  if (keyOf === undefined) {
+    return null;
+  }
+  if (typeof keyOf !== "function") {
+    throw new TypeError(`keyOf must be a function: ${keyOf}`);
+  }
+  return keyOf;
+}
+
+// Private: given the DataLoader's options, produce how the entries of a stream
+// are keyed.
+function getValidStreamEntries(
+  options?: Options<any, any, any>
+): "key" | "index" {
+  let streamEntries = options && options.streamEntries;
+  if (streamEntries === undefined) {
+    return "key";
+  }
+  if (streamEntries !== "key" && streamEntries !== "index") {
+    throw new TypeError(
+      `streamEntries must be "key" or "index": ${String(streamEntries)}`
+    );
+  }
+  return streamEntries;
+}
+
+// Private
+function isAsyncIterable(x: any): x is AsyncIterable<any> {
+  return (
+    typeof Symbol === "function" &&
+    typeof Symbol.asyncIterator === "symbol" &&
+    x != null &&
+    typeof x[Symbol.asyncIterator] === "function"
+  );
+}
+
+// Private
+function isMapLike(x: any): boolean {
+  return (
+    typeof x === "object" &&
+    x !== null &&
+    !isArrayLike(x) &&
+    typeof x.get === "function" &&
+    typeof x.has === "function" &&
+    typeof x.forEach === "function"
+  );
+}
+
 // Private
 function isArrayLike(x: any): boolean {
   return (
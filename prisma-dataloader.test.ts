@@ -0,0 +1,120 @@
+import { Dataloader } from "./prisma-dataloader";
+import type { DataloaderOptions } from "./prisma-dataloader";
+
+type Request = { model: string; where: { [key: string]: unknown } };
+
+// A Dataloader batching requests by model, which records the requests of
+// every call and resolves each to a description of it.
+function createLoader(options?: Partial<DataloaderOptions<Request>>) {
+  const calls: Array<Request | Request[]> = [];
+  const describeRequest = (request: Request) =>
+    `${request.model} ${String(request.where.id)}`;
+  const loader = new Dataloader<Request>({
+    singleLoader: async (request) => {
+      calls.push(request);
+      return describeRequest(request);
+    },
+    batchLoader: async (requests) => {
+      calls.push(requests);
+      return requests.map(describeRequest);
+    },
+    batchBy: (request) => request.model,
+    ...options,
+  });
+  return { loader, calls };
+}
+
+const user = (id: unknown): Request => ({ model: "User", where: { id } });
+
+describe("Dataloader", () => {
+  it("batches the requests of one tick", async () => {
+    const { loader, calls } = createLoader();
+    await expect(
+      Promise.all([loader.request(user(1)), loader.request(user(2))])
+    ).resolves.toEqual(["User 1", "User 2"]);
+    expect(calls).toEqual([[user(1), user(2)]]);
+  });
+
+  it("coalesces identical requests of one tick by default", async () => {
+    const { loader, calls } = createLoader();
+    const results = await Promise.all([
+      loader.request(user(1)),
+      loader.request({ where: { id: 1 }, model: "User" }),
+      loader.request(user(2)),
+    ]);
+    expect(results).toEqual(["User 1", "User 1", "User 2"]);
+    expect(calls).toEqual([[user(1), user(2)]]);
+  });
+
+  it("sends every request with dedupe: false", async () => {
+    const { loader, calls } = createLoader({ dedupe: false });
+    await Promise.all([loader.request(user(1)), loader.request(user(1))]);
+    expect(calls).toEqual([[user(1), user(1)]]);
+  });
+
+  it("sends requests which cannot be hashed without coalescing them", async () => {
+    const { loader, calls } = createLoader();
+    const callback = () => {};
+    await expect(
+      Promise.all([
+        loader.request(user(BigInt(1))),
+        loader.request(user(BigInt(1))),
+        loader.request(user(callback)),
+      ])
+    ).resolves.toHaveLength(3);
+    expect(calls).toEqual([[user(BigInt(1)), user(BigInt(1)), user(callback)]]);
+  });
+
+  it("loads a request again in a later tick without cache", async () => {
+    const { loader, calls } = createLoader();
+    await loader.request(user(1));
+    await loader.request(user(1));
+    expect(calls).toEqual([user(1), user(1)]);
+  });
+
+  it("memoizes requests across ticks with cache: true", async () => {
+    const { loader, calls } = createLoader({ cache: true });
+    await loader.request(user(1));
+    await expect(loader.request(user(1))).resolves.toBe("User 1");
+    expect(calls).toEqual([user(1)]);
+  });
+
+  it("loads a request again once it is cleared", async () => {
+    const { loader, calls } = createLoader({ cache: true });
+    await Promise.all([loader.request(user(1)), loader.request(user(2))]);
+    loader.clear(user(1));
+    await Promise.all([loader.request(user(1)), loader.request(user(2))]);
+    loader.clearAll();
+    await loader.request(user(2));
+    expect(calls).toEqual([[user(1), user(2)], user(1), user(2)]);
+  });
+
+  it("does not cache a failed batch", async () => {
+    let fail = true;
+    const loader = new Dataloader<Request>({
+      singleLoader: async (request) => request.where.id,
+      batchLoader: async (requests) => {
+        if (fail) {
+          throw new Error("database unavailable");
+        }
+        return requests.map((request) => request.where.id);
+      },
+      batchBy: (request) => request.model,
+      cache: true,
+    });
+    const failed = [loader.request(user(1)), loader.request(user(2))];
+    await expect(failed[0]).rejects.toThrow("database unavailable");
+    await expect(failed[1]).rejects.toThrow("database unavailable");
+
+    fail = false;
+    await expect(
+      Promise.all([loader.request(user(1)), loader.request(user(2))])
+    ).resolves.toEqual([1, 2]);
+  });
+
+  it("sends a request without a batch through singleLoader", async () => {
+    const { loader, calls } = createLoader({ batchBy: () => null });
+    await Promise.all([loader.request(user(1)), loader.request(user(2))]);
+    expect(calls).toEqual([user(1), user(2)]);
+  });
+});
@@ -3,6 +3,9 @@ interface Job {
   resolve: (data: any) => void;
   reject: (data: any) => void;
   request: any;
+  // 请求的规范化哈希, 相同的请求在同一个batch中只占一个位置;
+  // 关闭 dedupe 或无法哈希时为 null
+  requestKey: string | null;
 }
 
 export type DataloaderOptions<T> = {
@@ -10,13 +13,33 @@ export type DataloaderOptions<T> = {
   batchLoader: (request: T[]) => Promise<any[]>;
   // 批处理的标识符 标识各个batch
   batchBy: (request: T) => string | null;
+  // Default `true`. Identical requests made in the same tick share one slot
+  // of the batch, and one result. With `false`, each request is sent as made.
+  dedupe?: boolean;
+  // Default `false`. Memoizes the result of each request across ticks, like
+  // DataLoader's cache, until clear() or clearAll(). Implies `dedupe`.
+  cache?: boolean;
+  // Default a canonical JSON encoding of the request, in which the order of
+  // object keys does not matter, and an `undefined` field is the same as a
+  // missing one. Requests with the same key are identical. A request which
+  // cannot be hashed, e.g. one holding a function or a BigInt, is neither
+  // deduped nor cached.
+  requestKeyFn?: (request: T) => string;
 };
 
 export class Dataloader<T = any> {
   batches: { [key: string]: Job[] };
   private tickActive = false;
+  // 尚未派发的请求, 用于在同一个batch内合并相同的请求
+  private queuedRequests = new Map<string, Promise<any>>();
+  private cacheMap: Map<string, Promise<any>> | null;
+  private dedupe: boolean;
+  private requestKeyFn: (request: T) => string;
   constructor(private options: DataloaderOptions<T>) {
     this.batches = {};
+    this.cacheMap = options.cache ? new Map() : null;
+    this.dedupe = Boolean(options.cache) || options.dedupe !== false;
+    this.requestKeyFn = options.requestKeyFn || canonicalRequestKey;
   }
 
   get [Symbol.toStringTag]() {
@@ -24,11 +47,62 @@ export class Dataloader<T = any> {
   }
 
   request(request: T): Promise<any> {
+    const requestKey = this.requestKeyOf(request);
+    if (requestKey === null) {
+      return this.enqueue(request, null);
+    }
+    const cachedPromise =
+      (this.cacheMap && this.cacheMap.get(requestKey)) ||
+      this.queuedRequests.get(requestKey);
+    if (cachedPromise) {
+      return cachedPromise;
+    }
+
+    const promise = this.enqueue(request, requestKey);
+    if (this.cacheMap) {
+      this.cacheMap.set(requestKey, promise);
+    }
+    return promise;
+  }
+
+  // Removes a request from the cache, so that it is loaded again next time.
+  clear(request: T): this {
+    const requestKey = this.requestKeyOf(request);
+    if (requestKey !== null) {
+      this.clearRequestKey(requestKey);
+    }
+    return this;
+  }
+
+  // Empties the cache.
+  clearAll(): this {
+    if (this.cacheMap) {
+      this.cacheMap.clear();
+    }
+    return this;
+  }
+
+  // 不需要合并请求时不做哈希; 哈希失败时退化为不合并, 而不是让 request() 抛错
+  private requestKeyOf(request: T): string | null {
+    if (!this.dedupe) {
+      return null;
+    }
+    try {
+      return this.requestKeyFn(request);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private enqueue(request: T, requestKey: string | null): Promise<any> {
     // 获得当前batch的标识符
     const hash = this.options.batchBy(request);
     if (!hash) {
       // 如果不需要使用批处理, 直接使用singleLoader
-      return this.options.singleLoader(request);
+      return this.options.singleLoader(request).catch((e) => {
+        this.clearRequestKey(requestKey);
+        throw e;
+      });
     }
     // 如果是全新的batch, 声明一个新的命名空间(this.batchers[hash])存储需要批量执行的任务
     if (!this.batches[hash]) {
@@ -45,17 +119,30 @@ export class Dataloader<T = any> {
       }
     }
 
-    return new Promise((resolve, reject) => {
+    const promise = new Promise((resolve, reject) => {
       // 添加任务到对应batch的命名空间下
       this.batches[hash].push({
         request,
         resolve,
         reject,
+        requestKey,
       });
     });
+    if (requestKey !== null) {
+      this.queuedRequests.set(requestKey, promise);
+    }
+    return promise;
+  }
+
+  // 与 dataloader.ts 的 failedDispatch 一致: 整个batch失败时不缓存结果
+  private clearRequestKey(requestKey: string | null) {
+    if (this.cacheMap && requestKey !== null) {
+      this.cacheMap.delete(requestKey);
+    }
   }
 
   private dispatchBatches() {
+    this.queuedRequests.clear();
     for (const key in this.batches) {
       const batch = this.batches[key];
       delete this.batches[key];
@@ -74,6 +161,7 @@ export class Dataloader<T = any> {
             }
           })
           .catch((e) => {
+            this.clearRequestKey(batch[0].requestKey);
             batch[0].reject(e);
           });
       } else {
@@ -83,6 +171,7 @@ export class Dataloader<T = any> {
           .then((results) => {
             if (results instanceof Error) {
               for (let i = 0; i < batch.length; i++) {
+                this.clearRequestKey(batch[i].requestKey);
                 batch[i].reject(results);
               }
             } else {
@@ -99,6 +188,7 @@ export class Dataloader<T = any> {
           })
           .catch((e) => {
             for (let i = 0; i < batch.length; i++) {
+              this.clearRequestKey(batch[i].requestKey);
               batch[i].reject(e);
             }
           });
@@ -106,3 +196,23 @@ export class Dataloader<T = any> {
     }
   }
 }
+
+// 默认的请求哈希: 对象的键排序后再序列化, 使 { a, b } 与 { b, a } 得到相同的哈希.
+// JSON 会丢弃函数, 为避免不同的请求被合并, 遇到函数时直接抛错 (BigInt 由 JSON.stringify 本身抛错)
+function canonicalRequestKey(request: unknown): string {
+  return String(
+    JSON.stringify(request, (_key, value) => {
+      if (typeof value === "function" || typeof value === "symbol") {
+        throw new TypeError(`Cannot hash a request holding: ${String(value)}`);
+      }
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        const sorted: { [key: string]: unknown } = {};
+        for (const key of Object.keys(value).sort()) {
+          sorted[key] = value[key];
+        }
+        return sorted;
+      }
+      return value;
+    })
+  );
+}
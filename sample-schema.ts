@@ -0,0 +1,239 @@
+import { gql } from "apollo-server";
+import DataLoader from "./dataloader";
+import { EntityLoader } from "./dataloader-entity";
+// import DataLoader from "dataloader";
+// import DataLoader from "./tiny";
+
+import chalk from "chalk";
+
+// sample.ts 的 schema / resolvers / 数据源, 单独放在这里以便在测试中直接执行查询
+
+export const typeDefs = gql`
+  type Query {
+    fetchAllUsers: [User]
+    fetchUserByName(name: String!): User
+  }
+
+  type User {
+    id: Int!
+    name: String!
+    partner: User
+    batchLoadPartner: User
+    pets: [Pet]
+    batchLoadPets: [Pet]
+  }
+
+  type Pet {
+    id: Int!
+    kind: String!
+    age: Int!
+    isMale: Boolean!
+  }
+`;
+
+export interface IUser {
+  id: number;
+  name: string;
+  partnerId: number;
+  petsId: number[];
+}
+
+export interface IPet {
+  id: number;
+  kind: string;
+  age: number;
+  isMale: boolean;
+}
+
+const promiseWrapper = <T>(
+  value: T,
+  indicator: string,
+  delayMs: number
+): Promise<T> =>
+  new Promise((resolve) => {
+    setTimeout(() => {
+      console.log(chalk.cyanBright(indicator));
+      return resolve(value);
+    }, delayMs);
+  });
+
+// 模拟的数据源, 每次调用耗时 delayMs, 测试中可以设为 0
+export const createMockService = (delayMs: number = 200) => {
+  const users: IUser[] = [
+    { id: 1, name: "AAA", partnerId: 2, petsId: [2, 3, 4] },
+    { id: 2, name: "BBB", partnerId: 3, petsId: [1, 3, 4, 5] },
+    { id: 3, name: "CCC", partnerId: 4, petsId: [1, 2, 5] },
+    { id: 4, name: "DDD", partnerId: 5, petsId: [1, 2, 5] },
+    { id: 5, name: "EEE", partnerId: 1, petsId: [2, 3, 4] },
+  ];
+
+  const pets: IPet[] = [
+    {
+      id: 1,
+      kind: "Cat",
+      age: 3,
+      isMale: false,
+    },
+    {
+      id: 2,
+      kind: "Dog",
+      age: 6,
+      isMale: true,
+    },
+    {
+      id: 3,
+      kind: "Bird",
+      age: 2,
+      isMale: false,
+    },
+    {
+      id: 4,
+      kind: "Snake",
+      age: 5,
+      isMale: false,
+    },
+    {
+      id: 5,
+      kind: "Rabbit",
+      age: 4,
+      isMale: true,
+    },
+  ];
+
+  return {
+    getUserById: (id: number) =>
+      promiseWrapper(
+        users.find((user) => user.id === id),
+        `getUserById: ${id}`,
+        delayMs
+      ),
+
+    getUserByName: (name: string) =>
+      promiseWrapper(
+        users.find((user) => user.name === name),
+        `getUserByName: ${name}`,
+        delayMs
+      ),
+
+    getUsersByIds: (ids: readonly number[]) =>
+      promiseWrapper(
+        users.filter((user) => ids.includes(user.id)),
+        `getUsersByIds: ${ids}`,
+        delayMs
+      ),
+
+    getUsersByNames: (names: readonly string[]) =>
+      promiseWrapper(
+        users.filter((user) => names.includes(user.name)),
+        `getUsersByNames: ${names}`,
+        delayMs
+      ),
+
+    getAllUsers: () => promiseWrapper(users, "getAllUsers", delayMs),
+
+    getPetById: (id: number) =>
+      promiseWrapper(
+        pets.find((pet) => pet.id === id),
+        `getPetById: ${id}`,
+        delayMs
+      ),
+
+    getPetsByIds: (ids: readonly number[]) =>
+      promiseWrapper(
+        pets.filter((pet) => ids.includes(pet.id)),
+        `getPetsByIds: ${ids}`,
+        delayMs
+      ),
+
+    getAllPets: () => promiseWrapper(pets, "getAllPtes", delayMs),
+  };
+};
+
+export type ServiceType = ReturnType<typeof createMockService>;
+
+export type IContext = {
+  service: ServiceType;
+  dataloaders: {
+    users: EntityLoader<IUser, { id: number; name: string }>;
+    pets: DataLoader<number, IPet>;
+  };
+};
+
+export const resolvers = {
+  Query: {
+    fetchUserByName(
+      _root: undefined,
+      { name }: { name: string },
+      { dataloaders }: IContext
+    ) {
+      return dataloaders.users.by.name.load(name);
+    },
+    fetchAllUsers(_root: undefined, _args: undefined, { service }: IContext) {
+      return service.getAllUsers();
+    },
+  },
+  User: {
+    async partner(user: IUser, _args: undefined, { service }: IContext) {
+      return service.getUserById(user.partnerId);
+    },
+    async batchLoadPartner(
+      user: IUser,
+      _args: undefined,
+      { dataloaders }: IContext
+    ) {
+      return dataloaders.users.by.id.load(user.partnerId);
+    },
+    async pets(user: IUser, _args: undefined, { service }: IContext) {
+      return service.getPetsByIds(user.petsId);
+    },
+    async batchLoadPets(
+      user: IUser,
+      _args: undefined,
+      { dataloaders }: IContext
+    ) {
+      return dataloaders.pets.loadAll(user.petsId);
+    },
+  },
+};
+
+// Options given to every loader of a request, e.g. the `batchScheduleFn` of a
+// VirtualScheduler in tests.
+export type SampleLoaderOptions = {
+  batchScheduleFn?: (callback: () => void) => void;
+};
+
+export const createDataLoaders = (
+  service: ServiceType,
+  options: SampleLoaderOptions = {}
+): IContext["dataloaders"] => ({
+  // keyOf 让 DataLoader 自行将结果与 key 对齐, 缺失的 key 会被单独 reject
+  // 按 name 查到的用户会同时 prime 到按 id 查询的 loader 中, 反之亦然
+  users: new EntityLoader<IUser, { id: number; name: string }>({
+    id: {
+      batchLoadFn: async (userIds: Readonly<number[]>) => {
+        console.log("DataLoader Received User IDs");
+        console.log(userIds);
+        return service.getUsersByIds(userIds);
+      },
+      keyOf: (user: IUser) => user.id,
+      options,
+    },
+    name: {
+      batchLoadFn: async (names: Readonly<string[]>) =>
+        service.getUsersByNames(names),
+      keyOf: (user: IUser) => user.name,
+      options,
+    },
+  }),
+  pets: new DataLoader(
+    async (petIds: Readonly<number[]>) => {
+      console.log("DataLoader Received Pet IDs");
+      console.log(petIds);
+      const pets = await service.getPetsByIds(petIds);
+      console.log("Returned Pet Res");
+      console.log(pets);
+      return pets;
+    },
+    { ...options, keyOf: (pet: IPet) => pet.id }
+  ),
+});
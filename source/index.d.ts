@@ -39,6 +39,24 @@ declare class DataLoader<K, V, C = K> {
    */
   loadMany(keys: ArrayLike<K>): Promise<Array<V | Error>>;
 
+  /**
+   * Loads multiple keys, promising a Map from each key to its value or Error:
+   *
+   *     var users = await myLoader.loadManyMap([ 1, 2 ]);
+   *     users.get(1);
+   *
+   */
+  loadManyMap(keys: ArrayLike<K>): Promise<Map<K, V | Error>>;
+
+  /**
+   * Loads multiple keys, promising an array of values. Rejects if any key
+   * fails to load, with an Error whose `failures` list every failed key:
+   *
+   *     var [ a, b ] = await myLoader.loadAll([ 'a', 'b' ]);
+   *
+   */
+  loadAll(keys: ArrayLike<K>): Promise<Array<V>>;
+
   /**
    * Clears the value at `key` from the cache, if it exists. Returns itself for
    * method chaining.
@@ -57,6 +75,32 @@ declare class DataLoader<K, V, C = K> {
    * change is made. Returns itself for method chaining.
    */
   prime(key: K, value: V | Error): this;
+
+  /**
+   * Adds the provided key and value to the cache, replacing any existing
+   * value. Returns itself for method chaining.
+   */
+  set(key: K, value: V | Error): this;
+
+  /**
+   * Replaces the cached value at `key` with `fn(value)` once the cached value
+   * has loaded. A key which is not cached is left alone. Returns itself for
+   * method chaining.
+   */
+  update(key: K, fn: (value: V) => V): this;
+
+  /**
+   * Primes the cache with many values at once, given as a Map or an Array of
+   * `[key, value]` entries. Keys which already exist are left unchanged.
+   * Returns itself for method chaining.
+   */
+  primeMany(entries: DataLoader.CacheEntries<K, V>): this;
+
+  /**
+   * Like primeMany(), but replaces existing values. Returns itself for method
+   * chaining.
+   */
+  setMany(entries: DataLoader.CacheEntries<K, V>): this;
 }
 
 declare namespace DataLoader {
@@ -68,6 +112,10 @@ declare namespace DataLoader {
     clear(): any;
   }
 
+  // Values to add to the cache by primeMany() or setMany().
+  export type CacheEntries<K, V> =
+    ReadonlyMap<K, V | Error> | ReadonlyArray<readonly [K, V | Error]>;
+
   // A Function, which when given an Array of keys, returns a Promise of an Array
   // of values or Errors.
   export type BatchLoadFn<K, V> =
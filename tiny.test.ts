@@ -0,0 +1,209 @@
+import DataLoader from "./dataloader";
+import TinyDataLoader from "./tiny";
+import { BatchFailedError } from "./dataloader-errors";
+
+// TinyDataLoader 承诺与 DataLoader 的核心契约一致, 因此同一组用例对两者都要成立
+
+type ContractBatchLoadFn = (
+  keys: ReadonlyArray<number>
+) => Promise<Array<string | Error>>;
+
+type ContractOptions = {
+  batch?: boolean;
+  maxBatchSize?: number;
+  batchScheduleFn?: (callback: () => void) => void;
+  cache?: boolean;
+  cacheKeyFn?: (key: number) => unknown;
+  cacheMap?: unknown;
+};
+
+// The part of the API both loaders share.
+type ContractLoader = {
+  load(key: number): Promise<string>;
+  loadMany(keys: ReadonlyArray<number>): Promise<Array<string | Error>>;
+  clear(key: number): unknown;
+  clearAll(): unknown;
+  prime(key: number, value: string | Error): unknown;
+};
+
+type ContractLoaderClass = new (
+  batchLoadFn: ContractBatchLoadFn,
+  options?: ContractOptions
+) => ContractLoader;
+
+const loaderClasses: Array<[string, ContractLoaderClass]> = [
+  ["DataLoader", DataLoader as unknown as ContractLoaderClass],
+  ["TinyDataLoader", TinyDataLoader as unknown as ContractLoaderClass],
+];
+
+describe.each(loaderClasses)("%s", (_name, Loader) => {
+  // A loader of "v<key>", recording the keys of every batch.
+  function createLoader(options?: ContractOptions) {
+    const batches: Array<ReadonlyArray<number>> = [];
+    const loader = new Loader(async (keys) => {
+      batches.push(keys.slice());
+      return keys.map((key) => `v${key}`);
+    }, options);
+    return { loader, batches };
+  }
+
+  it("batches the loads of one tick into one call", async () => {
+    const { loader, batches } = createLoader();
+    const values = await Promise.all([loader.load(1), loader.load(2)]);
+    expect(values).toEqual(["v1", "v2"]);
+    expect(batches).toEqual([[1, 2]]);
+  });
+
+  it("caches loaded keys", async () => {
+    const { loader, batches } = createLoader();
+    await loader.load(1);
+    await Promise.all([loader.load(1), loader.load(2)]);
+    expect(batches).toEqual([[1], [2]]);
+  });
+
+  it("splits batches larger than maxBatchSize", async () => {
+    const { loader, batches } = createLoader({ maxBatchSize: 2 });
+    await Promise.all([1, 2, 3, 4, 5].map((key) => loader.load(key)));
+    expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("loads one key per call with batch: false", async () => {
+    const { loader, batches } = createLoader({ batch: false });
+    await Promise.all([loader.load(1), loader.load(2)]);
+    expect(batches).toEqual([[1], [2]]);
+  });
+
+  it("rejects every load of a failed batch, without caching it", async () => {
+    const cause = new Error("database unavailable");
+    let fail = true;
+    const loader = new Loader(async (keys) => {
+      if (fail) {
+        throw cause;
+      }
+      return keys.map((key) => `v${key}`);
+    });
+
+    const results = await Promise.all([
+      loader.load(1).catch((error) => error),
+      loader.load(2).catch((error) => error),
+    ]);
+    for (const error of results) {
+      expect(error).toBeInstanceOf(BatchFailedError);
+      expect(error.cause).toBe(cause);
+      expect(error.keys).toEqual([1, 2]);
+    }
+
+    fail = false;
+    await expect(loader.load(1)).resolves.toBe("v1");
+  });
+
+  it("rejects only the loads whose value is an Error", async () => {
+    const loader = new Loader(async (keys) =>
+      keys.map((key) => (key % 2 ? `v${key}` : new Error(`no ${key}`)))
+    );
+    await expect(loader.load(1)).resolves.toBe("v1");
+    await expect(loader.load(2)).rejects.toThrow("no 2");
+  });
+
+  it("returns the errors of loadMany() in place of their values", async () => {
+    const loader = new Loader(async (keys) =>
+      keys.map((key) => (key === 2 ? new Error("no 2") : `v${key}`))
+    );
+    const values = await loader.loadMany([1, 2, 3]);
+    expect(values[0]).toBe("v1");
+    expect(values[1]).toBeInstanceOf(Error);
+    expect((values[1] as Error).message).toBe("no 2");
+    expect(values[2]).toBe("v3");
+  });
+
+  it("loads a key again once it is cleared", async () => {
+    const { loader, batches } = createLoader();
+    await Promise.all([loader.load(1), loader.load(2)]);
+    loader.clear(1);
+    await Promise.all([loader.load(1), loader.load(2)]);
+    expect(batches).toEqual([[1, 2], [1]]);
+  });
+
+  it("loads every key again once the cache is cleared", async () => {
+    const { loader, batches } = createLoader();
+    await Promise.all([loader.load(1), loader.load(2)]);
+    loader.clearAll();
+    await Promise.all([loader.load(1), loader.load(2)]);
+    expect(batches).toEqual([
+      [1, 2],
+      [1, 2],
+    ]);
+  });
+
+  it("serves primed values without loading them", async () => {
+    const { loader, batches } = createLoader();
+    loader.prime(1, "primed");
+    loader.prime(2, new Error("primed error"));
+    await expect(loader.load(1)).resolves.toBe("primed");
+    await expect(loader.load(2)).rejects.toThrow("primed error");
+    expect(batches).toEqual([]);
+  });
+
+  it("does not replace a cached value when priming", async () => {
+    const { loader } = createLoader();
+    await loader.load(1);
+    loader.prime(1, "primed");
+    await expect(loader.load(1)).resolves.toBe("v1");
+  });
+
+  it("caches by the key of cacheKeyFn", async () => {
+    const { loader, batches } = createLoader({
+      cacheKeyFn: (key) => key % 10,
+    });
+    await Promise.all([loader.load(1), loader.load(11)]);
+    expect(batches).toEqual([[1]]);
+  });
+
+  it("loads every key again with cache: false", async () => {
+    const { loader, batches } = createLoader({ cache: false });
+    await loader.load(1);
+    await loader.load(1);
+    expect(batches).toEqual([[1], [1]]);
+  });
+
+  it("dispatches batches with batchScheduleFn", async () => {
+    const callbacks: Array<() => void> = [];
+    const { loader, batches } = createLoader({
+      batchScheduleFn: (callback) => {
+        callbacks.push(callback);
+      },
+    });
+    const value = loader.load(1);
+    await Promise.resolve();
+    expect(batches).toEqual([]);
+    callbacks.forEach((callback) => callback());
+    await expect(value).resolves.toBe("v1");
+  });
+
+  it("requires a batch function", () => {
+    expect(() => new Loader(undefined as any)).toThrow(TypeError);
+  });
+
+  it("requires load() to be given a key", () => {
+    const { loader } = createLoader();
+    expect(() => loader.load(undefined as any)).toThrow(TypeError);
+    expect(() => loader.load(null as any)).toThrow(TypeError);
+  });
+
+  it("validates its options", () => {
+    const batchLoadFn: ContractBatchLoadFn = async (keys) =>
+      keys.map((key) => `v${key}`);
+    expect(() => new Loader(batchLoadFn, { maxBatchSize: 0 })).toThrow(
+      "maxBatchSize must be a positive number: 0"
+    );
+    expect(
+      () => new Loader(batchLoadFn, { batchScheduleFn: "soon" as any })
+    ).toThrow(TypeError);
+    expect(() => new Loader(batchLoadFn, { cacheKeyFn: 1 as any })).toThrow(
+      TypeError
+    );
+    expect(
+      () => new Loader(batchLoadFn, { cacheMap: { get() {}, set() {} } })
+    ).toThrow("Custom cacheMap missing methods: delete, clear");
+  });
+});
@@ -1,7 +1,39 @@
+import {
+  BatchFailedError,
+  BatchFunctionContractError,
+  BatchLengthMismatchError,
+  DataLoaderError,
+  describeValue,
+} from "./dataloader-errors";
+import type { DataLoaderErrorDetails } from "./dataloader-errors";
+
+// 迷你实现: 只保留 DataLoader 的核心契约(批处理 / 缓存 / 错误处理),
+// 不依赖 dataloader.ts, 适合对体积敏感的场景
+
 export type BatchLoader<K, V> = (
   keys: Readonly<Array<K>>
 ) => Promise<Readonly<Array<V | Error>>>;
 
+// A subset of ES6 Map, as accepted by DataLoader's `cacheMap` option.
+export type CacheMap<K, V> = {
+  get(key: K): V | void;
+  set(key: K, value: V): any;
+  delete(key: K): any;
+  clear(): any;
+};
+
+// The options of DataLoader which TinyDataLoader supports, with the same
+// defaults.
+export type Options<K, V, C = K> = {
+  batch?: boolean;
+  maxBatchSize?: number;
+  batchScheduleFn?: (callback: () => void) => void;
+  cache?: boolean;
+  cacheKeyFn?: (key: K) => C;
+  cacheMap?: CacheMap<C, Promise<V>> | null;
+  name?: string;
+};
+
 export type Task<K, V> = {
   key: K;
   resolve: (val: V) => void;
@@ -9,50 +41,60 @@ export type Task<K, V> = {
 };
 
 export type Queue<K, V> = {
+  id: number;
+  dispatched: boolean;
   tasks: Array<Task<K, V>>;
   cacheHits: Array<() => void>;
 };
 
-export default class TinyDataLoader<K, V> {
+export default class TinyDataLoader<K, V, C = K> {
   readonly _batchLoader: BatchLoader<K, V>;
 
-  _taskQueue: Queue<K, V>;
-  _cacheMap: Map<K, Promise<V>> | null;
+  _taskQueue: Queue<K, V> | null;
+  _queueCount: number;
+  _maxBatchSize: number;
+  _batchScheduleFn: (callback: () => void) => void;
+  _cacheKeyFn: (key: K) => C;
+  _cacheMap: CacheMap<C, Promise<V>> | null;
+  _name: string;
 
-  constructor(batchLoader: BatchLoader<K, V>) {
+  constructor(batchLoader: BatchLoader<K, V>, options?: Options<K, V, C>) {
+    if (typeof batchLoader !== "function") {
+      throw new TypeError(
+        "TinyDataLoader must be constructed with a function which accepts " +
+          `Array<key> and returns Promise<Array<value>>, but got: ${batchLoader}.`
+      );
+    }
     this._batchLoader = batchLoader;
-    this._taskQueue = {
-      tasks: [],
-      cacheHits: [],
-    };
-    this._cacheMap = new Map();
+    this._taskQueue = null;
+    this._queueCount = 0;
+    this._maxBatchSize = getValidMaxBatchSize(options);
+    this._batchScheduleFn = getValidBatchScheduleFn(options);
+    this._cacheKeyFn = getValidCacheKeyFn(options);
+    this._cacheMap = getValidCacheMap(options);
+    this._name = (options && options.name) || "TinyDataLoader";
   }
 
   load(key: K): Promise<V> {
-    const currentQueue = this._taskQueue;
-    let cacheMap = this._cacheMap;
-
-    const shouldDispatch = currentQueue.tasks.length === 0;
-
-    if (shouldDispatch) {
-      resolveCacheHits(currentQueue);
-      enqueuePostPromiseJob(() => {
-        executeTaskQueue(this);
-      });
+    if (key === null || key === undefined) {
+      throw new TypeError(
+        "The loader.load() function must be called with a value, " +
+          `but got: ${String(key)}.`
+      );
     }
 
+    const currentQueue = getCurrentQueue(this);
+    const cacheMap = this._cacheMap;
+    const cacheKey = this._cacheKeyFn(key);
+
     if (cacheMap) {
-      // 可以用upsert代替...
-      let cachedPromise = cacheMap.get(key);
+      const cachedPromise = cacheMap.get(cacheKey);
 
       if (cachedPromise) {
-        let cacheHits =
-          this._taskQueue.cacheHits || (this._taskQueue.cacheHits = []);
-
-        // 如果这个key对应的函数已经被缓存了
+        // 如果这个key对应的函数已经被缓存了, 与本次batch的结果一起resolve
         return new Promise((resolve) => {
-          cacheHits.push(() => {
-            resolve(cachedPromise as V | PromiseLike<V>);
+          currentQueue.cacheHits.push(() => {
+            resolve(cachedPromise);
           });
         });
       }
@@ -63,14 +105,61 @@ export default class TinyDataLoader<K, V> {
     });
 
     if (cacheMap) {
-      cacheMap.set(key, promise);
+      cacheMap.set(cacheKey, promise);
     }
 
     return promise;
   }
 
+  // Errors are returned in place of the values of the keys which failed,
+  // rather than rejecting the whole call.
   loadMany(keys: Readonly<Array<K>>): Promise<Array<V | Error>> {
-    return Promise.all(keys.map((key) => this.load(key)));
+    if (!Array.isArray(keys)) {
+      throw new TypeError(
+        "The loader.loadMany() function must be called with Array<key> " +
+          `but got: ${keys}.`
+      );
+    }
+    return Promise.all(
+      keys.map((key) => this.load(key).catch((error: Error) => error))
+    );
+  }
+
+  clear(key: K): this {
+    const cacheMap = this._cacheMap;
+    if (cacheMap) {
+      cacheMap.delete(this._cacheKeyFn(key));
+    }
+    return this;
+  }
+
+  clearAll(): this {
+    const cacheMap = this._cacheMap;
+    if (cacheMap) {
+      cacheMap.clear();
+    }
+    return this;
+  }
+
+  // Only adds the key if it is not cached yet. An Error is cached as a
+  // rejected Promise, like a failed load.
+  prime(key: K, value: V | Error): this {
+    const cacheMap = this._cacheMap;
+    if (cacheMap) {
+      const cacheKey = this._cacheKeyFn(key);
+      if (cacheMap.get(cacheKey) === undefined) {
+        let promise: Promise<V>;
+        if (value instanceof Error) {
+          promise = Promise.reject(value);
+          // 避免未处理的rejection警告
+          promise.catch(() => {});
+        } else {
+          promise = Promise.resolve(value);
+        }
+        cacheMap.set(cacheKey, promise);
+      }
+    }
+    return this;
   }
 }
 
@@ -90,23 +179,182 @@ function enqueuePostPromiseJob(fn: () => void): void {
   resolvedPromise.then(() => process.nextTick(fn));
 }
 
-export function executeTaskQueue<K, V>(loader: TinyDataLoader<K, V>) {
-  // 保存后清空
-  const queue = loader._taskQueue.tasks;
-  loader._taskQueue.tasks = [];
+// 复用未派发且未满的队列, 否则新建一个并安排派发
+function getCurrentQueue<K, V>(loader: TinyDataLoader<K, V, any>): Queue<K, V> {
+  const existingQueue = loader._taskQueue;
+  if (
+    existingQueue &&
+    !existingQueue.dispatched &&
+    existingQueue.tasks.length < loader._maxBatchSize &&
+    existingQueue.cacheHits.length < loader._maxBatchSize
+  ) {
+    return existingQueue;
+  }
+
+  const newQueue: Queue<K, V> = {
+    id: ++loader._queueCount,
+    dispatched: false,
+    tasks: [],
+    cacheHits: [],
+  };
+  loader._taskQueue = newQueue;
+  loader._batchScheduleFn(() => {
+    executeTaskQueue(loader, newQueue);
+  });
+  return newQueue;
+}
+
+export function executeTaskQueue<K, V>(
+  loader: TinyDataLoader<K, V, any>,
+  queue: Queue<K, V>
+) {
+  queue.dispatched = true;
+
+  // 只有缓存命中时无需调用批处理函数
+  if (queue.tasks.length === 0) {
+    resolveCacheHits(queue);
+    return;
+  }
 
   // 这里已经拿到了所有key
-  const keys = queue.map(({ key }) => key);
-  const batchLoader = loader._batchLoader;
+  const keys = queue.tasks.map(({ key }) => key);
+  const details = (extra?: {
+    value?: unknown;
+    cause?: unknown;
+  }): DataLoaderErrorDetails<K> => ({
+    loaderName: loader._name,
+    batchId: queue.id,
+    keys,
+    ...extra,
+  });
+
+  const batchPromise = loader._batchLoader(keys);
 
-  const batchPromise = batchLoader(keys);
+  if (!batchPromise || typeof batchPromise.then !== "function") {
+    return failedDispatch(
+      loader,
+      queue,
+      new BatchFunctionContractError(
+        "TinyDataLoader must be constructed with a function which accepts " +
+          "Array<key> and returns Promise<Array<value>>, but the function did " +
+          `not return a Promise: ${describeValue(batchPromise)}.`,
+        details({ value: batchPromise })
+      )
+    );
+  }
+
+  batchPromise
+    .then((values) => {
+      if (!Array.isArray(values)) {
+        throw new BatchFunctionContractError(
+          "TinyDataLoader must be constructed with a function which accepts " +
+            "Array<key> and returns Promise<Array<value>>, but the function " +
+            `did not return a Promise of an Array: ${describeValue(values)}.`,
+          details({ value: values })
+        );
+      }
+      if (values.length !== keys.length) {
+        throw new BatchLengthMismatchError(details({ value: values }));
+      }
 
-  batchPromise.then((values) => {
-    resolveCacheHits(loader._taskQueue);
+      resolveCacheHits(queue);
 
-    queue.forEach(({ resolve, reject }, index) => {
-      const value = values[index];
-      value instanceof Error ? reject(value) : resolve(value);
+      queue.tasks.forEach(({ resolve, reject }, index) => {
+        const value = values[index];
+        value instanceof Error ? reject(value) : resolve(value);
+      });
+    })
+    .catch((error) => {
+      failedDispatch(
+        loader,
+        queue,
+        error instanceof DataLoaderError
+          ? error
+          : new BatchFailedError(details({ cause: error }))
+      );
     });
+}
+
+// 整个batch失败时不缓存任何结果, 但仍需reject每个请求, 避免调用方永远挂起
+function failedDispatch<K, V>(
+  loader: TinyDataLoader<K, V, any>,
+  queue: Queue<K, V>,
+  error: Error
+) {
+  resolveCacheHits(queue);
+  queue.tasks.forEach(({ key, reject }) => {
+    loader.clear(key);
+    reject(error);
   });
 }
+
+function getValidMaxBatchSize(options?: Options<any, any, any>): number {
+  if (options && options.batch === false) {
+    return 1;
+  }
+  const maxBatchSize = options && options.maxBatchSize;
+  if (maxBatchSize === undefined) {
+    return Infinity;
+  }
+  if (typeof maxBatchSize !== "number" || maxBatchSize < 1) {
+    throw new TypeError(
+      `maxBatchSize must be a positive number: ${maxBatchSize}`
+    );
+  }
+  return maxBatchSize;
+}
+
+function getValidBatchScheduleFn(
+  options?: Options<any, any, any>
+): (callback: () => void) => void {
+  const batchScheduleFn = options && options.batchScheduleFn;
+  if (batchScheduleFn === undefined) {
+    return enqueuePostPromiseJob;
+  }
+  if (typeof batchScheduleFn !== "function") {
+    throw new TypeError(
+      `batchScheduleFn must be a function: ${batchScheduleFn}`
+    );
+  }
+  return batchScheduleFn;
+}
+
+function getValidCacheKeyFn<K, C>(options?: Options<K, any, C>): (key: K) => C {
+  const cacheKeyFn = options && options.cacheKeyFn;
+  if (cacheKeyFn === undefined) {
+    return (key) => key as unknown as C;
+  }
+  if (typeof cacheKeyFn !== "function") {
+    throw new TypeError(`cacheKeyFn must be a function: ${cacheKeyFn}`);
+  }
+  return cacheKeyFn;
+}
+
+function getValidCacheMap<K, V, C>(
+  options?: Options<K, V, C>
+): CacheMap<C, Promise<V>> | null {
+  if (options && options.cache === false) {
+    return null;
+  }
+  const cacheMap = options && options.cacheMap;
+  if (cacheMap === undefined) {
+    return new Map();
+  }
+  if (cacheMap !== null) {
+    const cacheFunctions: Array<keyof CacheMap<C, Promise<V>>> = [
+      "get",
+      "set",
+      "delete",
+      "clear",
+    ];
+    const missingFunctions = cacheFunctions.filter(
+      (fnName) => typeof cacheMap[fnName] !== "function"
+    );
+    if (missingFunctions.length !== 0) {
+      throw new TypeError(
+        "Custom cacheMap missing methods: " + missingFunctions.join(", ")
+      );
+    }
+  }
+  return cacheMap;
+}